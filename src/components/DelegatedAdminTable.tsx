@@ -0,0 +1,73 @@
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { AdministrativeUnitDelegation } from "@/utils/administrativeUnits";
+
+interface DelegatedAdminTableProps {
+  delegations: AdministrativeUnitDelegation[];
+}
+
+// Who can do what where: one row per scoped role assignment, grouped by administrative unit
+const DelegatedAdminTable: React.FC<DelegatedAdminTableProps> = ({ delegations }) => {
+  return (
+    <div className="bg-white border rounded-lg overflow-hidden">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Administrative Unit</TableHead>
+            <TableHead>Members</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Scoped Admin</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {delegations.map(unit => {
+            const rows = unit.assignments.length > 0 ? unit.assignments : [null];
+            return rows.map((assignment, index) => (
+              <TableRow key={`${unit.id}_${index}`}>
+                {index === 0 && (
+                  <>
+                    <TableCell rowSpan={rows.length} className="font-medium align-top">
+                      {unit.name}
+                      {unit.restricted && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Restricted
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell rowSpan={rows.length} className="align-top">
+                      {unit.memberCount ?? "Unknown"}
+                    </TableCell>
+                  </>
+                )}
+                {assignment ? (
+                  <>
+                    <TableCell>{assignment.role}</TableCell>
+                    <TableCell>
+                      {assignment.admin}
+                      {assignment.isGuest && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Guest
+                        </span>
+                      )}
+                    </TableCell>
+                  </>
+                ) : (
+                  <TableCell colSpan={2} className="text-muted-foreground">No scoped admins</TableCell>
+                )}
+              </TableRow>
+            ));
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default DelegatedAdminTable;
@@ -19,7 +19,7 @@ export interface ScanSummaryItem {
   date: string;
   securityScore: number;
   issuesFound: number;
-  status: "Completed" | "In Progress" | "Failed";
+  status: "Completed" | "Incomplete" | "In Progress" | "Failed";
   scanTypes: ScanTypeStatus[];
 }
 
@@ -108,7 +108,8 @@ const ScanHistoryTable: React.FC<ScanHistoryTableProps> = ({
       date: summary.timestamp,
       securityScore: securityScore,
       issuesFound: totalIssues,
-      status: "Completed", // Default status, in a real app this would come from the server
+      // Cancelled scans and scans with timed-out checks only hold partial results
+      status: summary.status === "incomplete" ? "Incomplete" : "Completed",
       scanTypes
     };
   };
@@ -174,6 +175,8 @@ const ScanHistoryTable: React.FC<ScanHistoryTableProps> = ({
                 <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                   scan.status === "Completed" 
                     ? "bg-green-100 text-green-800" 
+                    : scan.status === "Incomplete"
+                    ? "bg-amber-100 text-amber-800"
                     : scan.status === "In Progress" 
                     ? "bg-blue-100 text-blue-800"
                     : "bg-gray-100 text-gray-800"
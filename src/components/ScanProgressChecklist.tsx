@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2, Circle, MinusCircle, RefreshCw } from "lucide-react";
+import { CustomProgress } from "@/components/ui/custom-progress";
+import { CheckProgress, getProgressDuration, isProgressStalled } from "@/utils/scanProgress";
+
+interface ScanProgressChecklistProps {
+  progress: CheckProgress[];
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = ms / 1000;
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
+
+const ScanProgressChecklist: React.FC<ScanProgressChecklistProps> = ({ progress }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while checks are running so durations and stalls stay current
+  const hasRunning = progress.some(p => p.status === "running" || p.status === "queued");
+  useEffect(() => {
+    if (!hasRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRunning]);
+
+  const finished = progress.filter(p => p.status === "succeeded" || p.status === "failed" || p.status === "skipped").length;
+  const stalled = progress.filter(p => isProgressStalled(p, now));
+
+  const getStatusIcon = (check: CheckProgress) => {
+    if (isProgressStalled(check, now)) {
+      return <AlertTriangle className="h-4 w-4 text-amber-500" />;
+    }
+    switch (check.status) {
+      case "running":
+        return <RefreshCw className="h-4 w-4 text-blue-500 animate-spin" />;
+      case "succeeded":
+        return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+      case "failed":
+        return <AlertCircle className="h-4 w-4 text-red-500" />;
+      case "skipped":
+        return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+      default:
+        return <Circle className="h-4 w-4 text-slate-300" />;
+    }
+  };
+
+  const getStatusDetail = (check: CheckProgress) => {
+    if (check.status === "queued") return "Queued";
+    if (check.status === "skipped") return check.message || "Skipped";
+
+    const parts = [
+      formatDuration(getProgressDuration(check, now)),
+      `${check.requestCount} ${check.requestCount === 1 ? "request" : "requests"}`
+    ];
+    if (check.retryCount > 0) {
+      parts.push(`${check.retryCount} throttled`);
+    }
+    if (check.status === "running" && check.page) {
+      parts.push(`page ${check.page} of up to ${check.maxPages}`);
+    }
+    if (isProgressStalled(check, now)) {
+      parts.push(`no response for ${formatDuration(now - (check.lastActivityAt ?? check.startedAt))}`);
+    }
+    if (check.status === "failed" && check.message) {
+      parts.push(check.message);
+    }
+    return parts.join(" · ");
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div>
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-muted-foreground">
+            {finished} of {progress.length} checks complete
+          </span>
+          {stalled.length > 0 && (
+            <span className="text-amber-700">
+              {stalled.length} {stalled.length === 1 ? "check has" : "checks have"} stalled
+            </span>
+          )}
+        </div>
+        <CustomProgress
+          value={progress.length > 0 ? Math.round((finished / progress.length) * 100) : 0}
+          max={100}
+          className="w-full h-2"
+          indicatorClassName="bg-blue-500"
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-left">
+        {progress.map(check => (
+          <div key={check.checkId} className="flex items-start gap-2">
+            <div className="mt-0.5">{getStatusIcon(check)}</div>
+            <div className="min-w-0">
+              <p className="text-sm">{check.name}</p>
+              <p className={`text-xs truncate ${
+                isProgressStalled(check, now) ? "text-amber-700" :
+                check.status === "failed" ? "text-red-600" : "text-muted-foreground"
+              }`}>
+                {getStatusDetail(check)}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScanProgressChecklist;
@@ -0,0 +1,124 @@
+import React from "react";
+import { AlertTriangle, CheckCircle2, RefreshCw, ShieldAlert, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getSecurityCheck } from "@/utils/checkRegistry";
+import { ScanReadinessReport } from "@/utils/scanReadiness";
+
+interface ScanReadinessModalProps {
+  isOpen: boolean;
+  report: ScanReadinessReport | null;
+  onClose: () => void;
+  onStartScan: () => void;
+}
+
+const ScanReadinessModal: React.FC<ScanReadinessModalProps> = ({
+  isOpen,
+  report,
+  onClose,
+  onStartScan,
+}) => {
+  if (!report) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Scan Readiness
+          </DialogTitle>
+          <DialogDescription>
+            {report.scopesKnown
+              ? `${report.readyChecks.length} of ${report.readyChecks.length + report.blockedChecks.length} enabled checks can run with the permissions granted to this session.`
+              : "Your access token did not list its granted permissions, so every enabled check will be attempted."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-6 py-2">
+            {report.missingScopes.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Missing Consent</h4>
+                <p className="text-sm text-muted-foreground mb-3">
+                  Ask an administrator to grant admin consent for these Microsoft Graph permissions on the scanner's app registration.
+                </p>
+                <div className="space-y-2">
+                  {report.missingScopes.map(({ scope, checkIds, requested }) => (
+                    <div key={scope} className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                      <p className="text-sm font-medium text-amber-900">{scope}</p>
+                      <p className="text-xs text-amber-800 mt-1">
+                        Blocks: {checkIds.map(id => getSecurityCheck(id)?.name || id).join(", ")}
+                      </p>
+                      {requested && (
+                        <p className="text-xs text-amber-800 mt-1">
+                          Requested at sign-in; sign out and back in to consent to it for this session.
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.blockedChecks.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-900 mb-2">Will Be Skipped</h4>
+                <div className="space-y-2">
+                  {report.blockedChecks.map(({ check, missingScopes }) => (
+                    <div key={check.id} className="flex items-center justify-between">
+                      <span className="text-sm">{check.name}</span>
+                      <span className="flex items-center text-xs text-amber-700">
+                        <AlertTriangle className="h-4 w-4 mr-1 text-amber-500" />
+                        Needs {missingScopes.join(", ")}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 mb-2">Will Run</h4>
+              {report.readyChecks.length > 0 ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {report.readyChecks.map(check => (
+                    <div key={check.id} className="flex items-center text-sm">
+                      <CheckCircle2 className="h-4 w-4 mr-2 text-green-500" />
+                      {check.name}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  None of the enabled checks can run with the current permissions.
+                </p>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="sm:justify-between">
+          <Button type="button" variant="outline" onClick={onClose}>
+            <X className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={onStartScan} disabled={report.readyChecks.length === 0}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Start Scan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScanReadinessModal;
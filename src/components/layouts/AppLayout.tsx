@@ -22,7 +22,7 @@ interface AppLayoutProps {
 }
 
 const AppLayout: React.FC<AppLayoutProps> = ({ children, pageTitle }) => {
-  const { logout, tenantId } = useAuth();
+  const { logout, tenantId, isReplaying } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const isMobile = useMobileDetect();
@@ -71,6 +71,11 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children, pageTitle }) => {
               <p className="text-sm font-medium text-slate-700 truncate">{tenantId}</p>
             </div>
           )}
+          {isReplaying && (
+            <div className="mt-2 px-3 py-2 rounded-md bg-amber-50 border border-amber-200">
+              <p className="text-xs text-amber-800">Replaying a recorded fixture. Scans do not query the live tenant.</p>
+            </div>
+          )}
         </div>
         
         <nav className="flex-1 px-4 mt-5 space-y-1">
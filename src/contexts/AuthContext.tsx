@@ -1,47 +1,18 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from "react";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
+import { REQUESTED_SCOPES, parseJwt } from "@/utils/scanReadiness";
+import {
+  GraphFixture,
+  getReplayFixture,
+  getReplaySession,
+  startFixtureReplay,
+  stopFixtureReplay,
+} from "@/utils/graphFixtures";
 
 // MS Graph Auth Parameters - Get clientId from localStorage or use a default (for development only)
 const getClientId = () => localStorage.getItem("setupClientId") || "";
 const redirectUri = window.location.origin;
-const scopes = [
-  "openid",
-  "profile",
-  "offline_access",
-  // Directory access
-  "Directory.Read.All",
-  "User.Read.All",
-  "Group.Read.All",
-  // Security and compliance
-  "SecurityEvents.Read.All",
-  "IdentityRiskyUser.Read.All",
-  "Policy.Read.All",
-  "SecurityActions.Read.All",
-  // Audit and reports
-  "AuditLog.Read.All",
-  "Reports.Read.All",
-  // Organization
-  "Organization.Read.All",
-  // Applications
-  "Application.Read.All",
-  // Exchange and email
-  "Mail.Read",
-  //"Exchange.ManageAsApp",
-  // Device management
-  "DeviceManagementConfiguration.Read.All",
-  "DeviceManagementManagedDevices.Read.All",
-  // Security APIs
- // "ThreatAssessment.Read.All",
-  "ThreatIndicators.Read.All",
-  "SecurityIncident.Read.All",
-  // Information protection
- // "InformationProtectionPolicy.Read.All",
-  // Role management
-  "RoleManagement.Read.All",
-  // Sites and SharePoint
-  "Sites.Read.All"
-];
 
 interface AuthContextType {
   isAuthenticated: boolean;
@@ -51,6 +22,10 @@ interface AuthContextType {
   login: (redirectPath?: string) => void;
   logout: () => void;
   handleAuthCallback: (code: string) => Promise<boolean>;
+  // Scans are served from a recorded fixture instead of the live tenant
+  isReplaying: boolean;
+  startReplay: (fixture: GraphFixture) => boolean;
+  stopReplay: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -60,6 +35,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [accessToken, setAccessToken] = useState<string | null>(null);
   const [tenantId, setTenantId] = useState<string | null>(null);
+  const [replayFixture, setReplayFixture] = useState<GraphFixture | null>(getReplayFixture);
   const navigate = useNavigate();
 
   const handleAuthCallback = useCallback(async (code: string): Promise<boolean> => {
@@ -118,7 +94,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     try {
       const params = new URLSearchParams();
       params.append("client_id", clientId);
-      params.append("scope", scopes.join(" "));
+      params.append("scope", REQUESTED_SCOPES.join(" "));
       params.append("refresh_token", refreshToken);
       params.append("grant_type", "refresh_token");
 
@@ -261,7 +237,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         + `&response_type=code`
         + `&redirect_uri=${encodeURIComponent(redirectUri)}`
         + `&response_mode=query`
-        + `&scope=${encodeURIComponent(scopes.join(" "))}`
+        + `&scope=${encodeURIComponent(REQUESTED_SCOPES.join(" "))}`
         + `&state=${encodeURIComponent(state)}`
         + `&code_challenge=${encodeURIComponent(codeChallenge)}`
         + `&code_challenge_method=S256`
@@ -287,6 +263,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setAccessToken(null);
     setTenantId(null);
     setIsAuthenticated(false);
+    stopReplay();
 
     // Redirect to home
     navigate("/");
@@ -299,7 +276,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   
     const params = new URLSearchParams();
     params.append("client_id", clientId);
-    params.append("scope", scopes.join(" "));
+    params.append("scope", REQUESTED_SCOPES.join(" "));
     params.append("code", code);
     params.append("redirect_uri", redirectUri);
     params.append("grant_type", "authorization_code");
@@ -323,22 +300,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
 
-  // Function to parse JWT
-  const parseJwt = (token: string) => {
-    try {
-      const base64Url = token.split(".")[1];
-      const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-      const jsonPayload = decodeURIComponent(atob(base64).split("").map(function (c) {
-        return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
-      }).join(""));
-
-      return JSON.parse(jsonPayload);
-    } catch (error) {
-      console.error("Error parsing JWT", error);
-      return {};
-    }
-  };
-
   // Generate a random code verifier string for PKCE
   const generateCodeVerifier = (): string => {
     // Create a random string between 43-128 characters
@@ -378,14 +339,31 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
   };
 
+  // Replay a fixture as its recorded tenant, with or without a live sign-in
+  const startReplay = (fixture: GraphFixture): boolean => {
+    const persisted = startFixtureReplay(fixture);
+    setReplayFixture(fixture);
+    return persisted;
+  };
+
+  const stopReplay = () => {
+    stopFixtureReplay();
+    setReplayFixture(null);
+  };
+
+  const replaySession = replayFixture ? getReplaySession(replayFixture) : null;
+
   const value = {
-    isAuthenticated,
+    isAuthenticated: isAuthenticated || !!replaySession,
     isLoading,
-    accessToken,
-    tenantId,
+    accessToken: replaySession?.accessToken ?? accessToken,
+    tenantId: replaySession?.tenantId ?? tenantId,
     login,
     logout,
     handleAuthCallback,
+    isReplaying: !!replaySession,
+    startReplay,
+    stopReplay,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
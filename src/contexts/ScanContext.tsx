@@ -1,42 +1,55 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
 import { useAuth } from "./AuthContext";  // Your authentication context
+import { GraphApiResponse, GraphRequestObserver, handleGraphError } from "@/utils/graphApi";
+import {
+  DEFAULT_CHECK_TIMEOUT_MS,
+  SECURITY_CHECKS,
+  SecurityCheck,
+  getEnabledChecks,
+  getSecurityCheck,
+} from "@/utils/checkRegistry";
+import {
+  DirectoryCollection,
+  DirectorySyncResult,
+  clearDirectorySnapshot,
+  getSnapshotObjects,
+  syncDirectorySnapshot,
+} from "@/utils/directorySnapshot";
+import { ScanReadinessReport, buildReadinessReport, getMissingScopes } from "@/utils/scanReadiness";
+import {
+  AdministrativeUnit,
+  ConditionalAccessPolicy,
+  DirectoryRole,
+  GraphGroup,
+  GraphModelDiagnostic,
+  GraphOrganization,
+  GraphUser,
+  MailboxForwardingRule,
+  ManagedDevice,
+  UnusedLicenses,
+  validateGraphData,
+} from "@/utils/graphModels";
+import { CheckResults, IdentityBaselineStatus, getIdentityBaseline } from "@/utils/conditionalAccess";
+import { AdministrativeUnitDelegation, getAdministrativeUnitDelegations } from "@/utils/administrativeUnits";
 import {
-  fetchUsers,
-  fetchTenantInfo,
-  handleGraphError,
-  checkInactiveUsers,
-  checkUsersWithoutMFA,
-  checkGroupsWithNoOwners,
-  checkPasswordNeverExpires,
-  checkRiskyUsers,
-  checkEmailForwardingRules,
-  checkPrivilegedRoles,
-  checkGuestUsers,
-  checkSharedMailboxes,
-  checkDeviceCompliance,
-  checkConditionalAccessPolicies,
-  checkUnusedLicenses,
-  checkAdministrativeUnits,
-  checkAuthenticationStrengthPolicies,
-  checkDataLossPrevention,
-  checkDefenderForOffice,
-  checkEmailAuthentication,
-  checkExchangeTransportRules,
-  checkIntuneCompliancePolicies,
-  checkLegacyAuthenticationStatus,
-  checkNamedLocations,
-  checkOrganizationSettings,
-  checkPrivilegedIdentityManagement,
-  checkRetentionPolicies,
-  checkSecurityDefaultsStatus,
-  checkSelfServicePasswordReset,
-  checkSharePointExternalSharing,
-} from "@/utils/graphApi";
+  downloadGraphFixture,
+  finishFixtureRecording,
+  getFixtureRecordingSettings,
+  isReplayingFixture,
+  startFixtureRecording,
+} from "@/utils/graphFixtures";
+import {
+  CheckProgress,
+  DIRECTORY_SYNC_PROGRESS_ID,
+  ScanProgressEvent,
+  applyProgressEvent,
+} from "@/utils/scanProgress";
 
 // Interfaces for scan data
+export type ScanStatus = "completed" | "incomplete";
+export type IncompleteReason = "timeout" | "cancelled";
+
 export interface SecurityIssue {
   id: string;
   type: string;
@@ -50,13 +63,19 @@ export interface SecurityIssue {
   recommendation?: string;
   impact?: string;
   remediation?: string;
-  details?: any;
+  details?: string;
   status?: string;
   canAutoFix?: boolean;
   category?: string;
   title?: string;
   affectedItems?: string[];
   isRealData?: boolean;
+  // Registry id of the check that raised the issue
+  checkId?: string;
+  // Directory object id behind each affected item, in the same order
+  affectedObjectIds?: string[];
+  // Affected items whose directory objects changed since the previous scan
+  changedItems?: string[];
 }
 
 export interface ScanSummary {
@@ -78,9 +97,12 @@ export interface ScanSummary {
   totalPoliciesScanned: number;
   totalDevicesScanned?: number;
   totalMailboxesScanned?: number;
+  truncatedCollections?: string[];
+  // "incomplete" when the scan was cancelled or some checks timed out
+  status?: ScanStatus;
 }
 
-export interface ScanSummaryItem extends ScanSummary {
+export interface ScanSummaryItem extends Omit<ScanSummary, "status"> {
   date: string;
   securityScore: number;
   issuesFound: number;
@@ -91,19 +113,113 @@ export interface ScanData {
   summary: ScanSummary;
   issues: SecurityIssue[];
   apiErrors: string[];
+  throttledEndpoints?: string[];
+  // Registry ids of the checks this scan ran, and of those whose fetch failed
+  checksRun?: string[];
+  failedChecks?: string[];
+  // Scopes each skipped or forbidden check was missing, keyed by check id
+  missingPermissions?: Record<string, string[]>;
+  // Checks cut short by a timeout or cancellation, keyed by check id
+  incompleteChecks?: Record<string, IncompleteReason>;
+  // Graph objects dropped because they did not match their model
+  diagnostics?: GraphModelDiagnostic[];
+  // "fixture" when the scan was replayed from a recording instead of the live tenant
+  dataSource?: "graph" | "fixture";
+  directorySync?: DirectorySyncSummary;
+  // Whether Security Defaults or Conditional Access protect sign-ins
+  identityBaseline?: IdentityBaselineStatus;
+  // Scoped role assignments per administrative unit
+  administrativeUnitDelegations?: AdministrativeUnitDelegation[];
   rawData?: {
-    users?: any[];
-    groups?: any[];
-    policies?: any[];
-    mailRules?: any[];
-    securityConfigs?: any[];
-    devices?: any[];
-    licenses?: any[];
-    roles?: any[];
+    users?: GraphUser[];
+    groups?: GraphGroup[];
+    policies?: ConditionalAccessPolicy[];
+    mailRules?: MailboxForwardingRule[];
+    securityConfigs?: unknown[];
+    devices?: ManagedDevice[];
+    licenses?: UnusedLicenses;
+    roles?: DirectoryRole[];
   };
   usesRealData?: boolean;
 }
 
+// An issue as the scan results page lists it
+export interface ScanDetailsIssue extends Pick<SecurityIssue, "id" | "severity" | "description" | "details" | "isRealData" | "checkId"> {
+  title: string;
+  impact: string;
+  recommendation?: string;
+  status: string;
+  canAutoFix: boolean;
+  category: string;
+  affectedItems: string[];
+  changedItems: string[];
+}
+
+// A stored scan as the results page shows it
+export interface ScanDetails extends Pick<
+  ScanData,
+  | "apiErrors"
+  | "throttledEndpoints"
+  | "checksRun"
+  | "failedChecks"
+  | "missingPermissions"
+  | "incompleteChecks"
+  | "diagnostics"
+  | "dataSource"
+  | "directorySync"
+  | "identityBaseline"
+  | "administrativeUnitDelegations"
+  | "usesRealData"
+> {
+  id: string;
+  date: string;
+  securityScore: number;
+  highRiskIssues: number;
+  mediumRiskIssues: number;
+  lowRiskIssues: number;
+  issuesFixed: number;
+  truncatedCollections: string[];
+  status: ScanStatus;
+  issues: ScanDetailsIssue[];
+}
+
+// What one scan read from Graph: each check's result under its id, plus how the run went
+interface GraphScanResult extends CheckResults {
+  success: boolean;
+  apiErrors: string[];
+  throttledEndpoints: string[];
+  truncatedCollections?: string[];
+  checksRun: string[];
+  failedChecks: string[];
+  missingPermissions: Record<string, string[]>;
+  incompleteChecks: Record<string, IncompleteReason>;
+  diagnostics: GraphModelDiagnostic[];
+  cancelled: boolean;
+  directorySync?: DirectorySyncSummary;
+  error?: string;
+}
+
+// What the directory delta sync fetched for a scan
+export interface DirectorySyncSummary {
+  incremental: boolean;
+  previousSync?: string;
+  changedCounts: Record<DirectoryCollection, number>;
+  // Ids of the changed objects, matched against issues' affected object ids
+  changedObjectIds: string[];
+}
+
+// Reduce a delta sync to what a scan keeps: counts, plus ids to match affected objects against
+const summarizeDirectorySync = (sync: DirectorySyncResult): DirectorySyncSummary => ({
+  incremental: sync.incremental,
+  previousSync: sync.previousSync,
+  changedCounts: {
+    users: sync.changedIds.users.length,
+    groups: sync.changedIds.groups.length,
+    servicePrincipals: sync.changedIds.servicePrincipals.length,
+  },
+  changedObjectIds: Object.values(sync.changedIds).flat(),
+});
+
 // Dashboard-specific scan data
 export interface LatestScanData {
   id: string;
@@ -129,10 +245,13 @@ export interface LatestScanData {
 
 interface ScanContextType {
   isScanning: boolean;
+  // Per-check progress of the running scan, or of the last one
+  scanProgress: CheckProgress[];
   currentScan: ScanData | null;
   scanHistory: ScanSummary[];
   startScan: () => Promise<string | null>;
-  getScanById: (id: string) => Promise<any>;
+  cancelScan: () => void;
+  getScanById: (id: string) => Promise<ScanDetails | null>;
   getScanSummaries: () => Promise<ScanSummary[]>;
   exportScan: (scanId: string, format: "pdf" | "csv") => Promise<void>;
   // Methods used in components:
@@ -144,6 +263,7 @@ interface ScanContextType {
   clearScanHistory: () => Promise<void>;
   exportAllScanResults: () => Promise<void>;
   emailScanResults: (scanId: string, emailAddress: string) => Promise<void>;
+  getScanReadiness: () => ScanReadinessReport | null;
 }
 
 const ScanContext = createContext<ScanContextType | undefined>(undefined);
@@ -154,6 +274,8 @@ export const ScanProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [currentScan, setCurrentScan] = useState<ScanData | null>(null);
   const [scanHistory, setScanHistory] = useState<ScanSummary[]>([]);
   const [latestScan, setLatestScan] = useState<LatestScanData | null>(null);
+  const [scanProgress, setScanProgress] = useState<CheckProgress[]>([]);
+  const scanAbortController = useRef<AbortController | null>(null);
   const { accessToken, tenantId } = useAuth();
 
   // Store minimal Graph data if you want
@@ -277,161 +399,262 @@ export const ScanProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   };
 
+  // Record a check's progress event for the live checklist
+  const emitProgress = (event: ScanProgressEvent) => {
+    setScanProgress(prev => applyProgressEvent(prev, event));
+  };
+
+  /**
+   * Run one Graph task under its own AbortController, aborted when the scan is
+   * cancelled or when the task outlives its deadline
+   * @param task - Starts the task with the signal it must pass to Graph
+   * @param scanSignal - The whole scan's signal
+   * @param timeoutMs - Deadline for this task
+   * @param onTimeout - Result to settle with once the deadline passes, even if the task ignores its signal
+   */
+  const runWithTimeout = async <T,>(
+    task: (signal: AbortSignal) => Promise<T>,
+    scanSignal: AbortSignal,
+    timeoutMs: number,
+    onTimeout: () => T
+  ): Promise<T> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    scanSignal.addEventListener("abort", abort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout>;
+    const deadline = new Promise<T>((resolve, reject) => {
+      timer = setTimeout(() => {
+        // Settle before aborting so the timeout wins over the task's own cancelled result
+        try {
+          resolve(onTimeout());
+        } catch (error) {
+          reject(error);
+        }
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([task(controller.signal), deadline]);
+    } finally {
+      clearTimeout(timer);
+      scanSignal.removeEventListener("abort", abort);
+    }
+  };
+
+  // Stop the running scan; checks that already finished are kept as a partial result
+  const cancelScan = () => {
+    if (scanAbortController.current && !scanAbortController.current.signal.aborted) {
+      scanAbortController.current.abort();
+      toast.info("Cancelling scan...");
+    }
+  };
+
+  // Compare the signed-in token's permissions with the enabled checks before a scan
+  const getScanReadiness = (): ScanReadinessReport | null => {
+    if (!accessToken) return null;
+    return buildReadinessReport(accessToken, getEnabledChecks());
+  };
+
   // Alias for startScan to match the method name used in components
   const startNewScan = async (): Promise<string | null> => {
     return startScan();
   };
 
   // Fetch real data from Microsoft Graph if authenticated
-  const fetchMicrosoftGraphData = async (token: string): Promise<any> => {
+  const fetchMicrosoftGraphData = async (token: string, signal: AbortSignal): Promise<GraphScanResult> => {
     try {
-      // Collect API errors
+      // Collect API errors; throttled endpoints are tracked apart from permission failures
       const apiErrors: string[] = [];
+      const throttledEndpoints: string[] = [];
+
+      // Collections that hit the page cap before @odata.nextLink ran out
+      const truncatedCollections: string[] = [];
+      const failedChecks: string[] = [];
+
+      // Checks whose scopes the token lacks are skipped up front rather than left to fail
+      const readiness = buildReadinessReport(token, getEnabledChecks());
+      const missingPermissions: Record<string, string[]> = {};
+      const incompleteChecks: Record<string, IncompleteReason> = {};
+      const diagnostics: GraphModelDiagnostic[] = [];
+      const results: Record<string, unknown> = {};
+      const checks = readiness.readyChecks;
+      // Fixtures hold plain check queries, so recorded and replayed scans skip the delta-synced snapshot
+      const recordingSettings = getFixtureRecordingSettings();
+      const recording = recordingSettings.enabled && !isReplayingFixture();
+      const usesSnapshot = !!tenantId && !recording && !isReplayingFixture() && checks.some(check => check.snapshot);
+      if (recording) {
+        startFixtureRecording(tenantId, readiness.grantedScopes);
+      }
 
-      // Initiate all fetches in parallel for better performance
-      const responses = await Promise.all([
-        fetchUsers(token), //0
-        fetchTenantInfo(token), //1
-        checkInactiveUsers(token), //2
-        checkUsersWithoutMFA(token), //3
-        checkGroupsWithNoOwners(token), //4
-        checkPasswordNeverExpires(token), //5
-        checkRiskyUsers(token), //6
-        checkEmailForwardingRules(token), //7
-        checkPrivilegedRoles(token), //8
-        checkGuestUsers(token), //9
-        checkSharedMailboxes(token), //10
-        checkDeviceCompliance(token), //11
-        checkConditionalAccessPolicies(token), //12
-        checkUnusedLicenses(token), //13
-        checkSecurityDefaultsStatus(token), //14
-        checkAuthenticationStrengthPolicies(token), //15
-        checkNamedLocations(token), //16
-        checkLegacyAuthenticationStatus(token), //17
-        checkSelfServicePasswordReset(token), //18
-        checkAdministrativeUnits(token), //19
-        checkPrivilegedIdentityManagement(token), //20
-        checkSharePointExternalSharing(token), //21
-        checkDataLossPrevention(token), //22
-        checkRetentionPolicies(token), //23
-        checkOrganizationSettings(token), //24
-        checkDefenderForOffice(token), //25
-        checkIntuneCompliancePolicies(token), //26
-        checkExchangeTransportRules(token), //27
-        checkEmailAuthentication(token) //28
-      ]);
-  
-      // Map of API endpoints to their response indices
-      const endpointMap = {
-        'users': [0, 3],
-        'inactiveUsers': [2],
-        'organization': [1],
-        'groups': [4],
-        'users/passwordPolicies': [5],
-        'identityProtection/riskyUsers': [6],
-        'users/mailFolders/messageRules': [7],
-        'directoryRoles': [8],
-        'users/guestUsers': [9],
-        'users/mailboxSettings': [10],
-        'deviceManagement/mobileThreatDefenseConnectors': [11],
-        'identity/conditionalAccess/policies': [12],
-        'subscribedSkus': [13],
-        'policies/identitySecurityDefaultsEnforcementPolicy': [14],
-        'identity/authenticationStrengthPolicies': [15],
-        'identity/conditionalAccess/namedLocations': [16],
-        'policies/authenticationMethodsPolicy': [17, 18],
-        'administrativeUnits': [19],
-        'roleManagement/directory/roleSettings': [20],
-        'admin/sharepoint/settings': [21],
-        'informationProtection/dataLossPreventionPolicies': [22],
-        'security/informationProtection/policy/labels': [23],
-        'security/threatIntelligence/antiphishPolicies': [25],
-        'deviceManagement/deviceCompliancePolicies': [26],
-        'admin/exchange/transportRules': [27],
-        'domains': [28]
+      setScanProgress([]);
+      if (usesSnapshot) {
+        emitProgress({ checkId: DIRECTORY_SYNC_PROGRESS_ID, type: "queued", name: "Directory Sync" });
+      }
+      checks.forEach(check => emitProgress({ checkId: check.id, type: "queued", name: check.name }));
+      readiness.blockedChecks.forEach(({ check, missingScopes }) => {
+        missingPermissions[check.id] = missingScopes;
+        results[check.id] = check.fallback;
+        emitProgress({ checkId: check.id, type: "queued", name: check.name });
+        emitProgress({ checkId: check.id, type: "skipped", message: `Missing ${missingScopes.join(", ")}` });
+      });
+
+      // Feed a check's Graph requests and pages into its progress entry
+      const observeCheck = (checkId: string): GraphRequestObserver => ({
+        onRequest: () => emitProgress({ checkId, type: "request" }),
+        onRetry: () => emitProgress({ checkId, type: "retry" }),
+        onPage: (page, maxPages) => emitProgress({ checkId, type: "paged", page, maxPages }),
+      });
+
+      // Bring the cached directory up to date so directory checks can read it instead of Graph
+      const directorySyncPromise: Promise<DirectorySyncResult | null> = usesSnapshot
+        ? runWithTimeout(
+          checkSignal => syncDirectorySnapshot(token, tenantId, {
+            signal: checkSignal,
+            observer: observeCheck(DIRECTORY_SYNC_PROGRESS_ID)
+          }),
+          signal,
+          DEFAULT_CHECK_TIMEOUT_MS,
+          () => { throw new Error("Directory delta sync timed out"); }
+        )
+          .then(sync => {
+            emitProgress({ checkId: DIRECTORY_SYNC_PROGRESS_ID, type: sync.failedCollections.length > 0 ? "failed" : "succeeded" });
+            return sync;
+          })
+          .catch(error => {
+            console.error("Directory delta sync failed; querying directory checks live:", error);
+            emitProgress({ checkId: DIRECTORY_SYNC_PROGRESS_ID, type: "failed", message: "Delta sync failed" });
+            return null;
+          })
+        : Promise.resolve(null);
+
+      const runCheck = async (check: SecurityCheck): Promise<GraphApiResponse<unknown>> => {
+        const collection = check.snapshot?.collection;
+        const sync = collection ? await directorySyncPromise : null;
+        if (!sync || sync.failedCollections.includes(collection)) {
+          const timeoutMs = check.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+          return runWithTimeout<GraphApiResponse<unknown>>(
+            checkSignal => check.fetch(token, { signal: checkSignal, observer: observeCheck(check.id) }),
+            signal,
+            timeoutMs,
+            () => ({
+              success: false,
+              error: `Timed out after ${Math.round(timeoutMs / 1000)}s`,
+              statusCode: 408,
+              aborted: true
+            })
+          );
+        }
+        emitProgress({ checkId: check.id, type: "running" });
+        return {
+          success: true,
+          data: {
+            value: check.snapshot.select(getSnapshotObjects(sync.snapshot, collection)),
+            truncated: sync.snapshot.incomplete.includes(collection)
+          }
+        };
       };
 
-      // Check each response for errors
-      Object.entries(endpointMap).forEach(([endpoint, indices]) => {
-        indices.forEach(index => {
-          if (!responses[index].success) {
-            apiErrors.push(`graph.microsoft.com/beta/${endpoint}`);
+      // Run every remaining check from the registry in parallel, reporting each as it finishes
+      const responses = await Promise.all(checks.map(check => runCheck(check).then(response => {
+        emitProgress(response.success
+          ? { checkId: check.id, type: "succeeded" }
+          : response.aborted && response.statusCode !== 408
+          ? { checkId: check.id, type: "skipped", message: "Cancelled" }
+          : { checkId: check.id, type: "failed", message: response.error });
+        return response;
+      })));
+      const directorySync = await directorySyncPromise;
+
+      checks.forEach((check, index) => {
+        const response = responses[index];
+        const endpoints = check.endpoints.map(endpoint => `graph.microsoft.com/beta/${endpoint}`);
+
+        if (!response.success && response.aborted) {
+          incompleteChecks[check.id] = response.statusCode === 408 ? "timeout" : "cancelled";
+          results[check.id] = check.fallback;
+          return;
+        }
+
+        if (!response.success) {
+          failedChecks.push(check.id);
+          results[check.id] = check.fallback;
+
+          // Name the permission behind a 403 instead of reporting a generic endpoint failure
+          if (response.statusCode === 403) {
+            const missing = getMissingScopes(check, readiness.grantedScopes);
+            missingPermissions[check.id] = missing.length > 0 ? missing : check.requiredScopes;
+            return;
           }
-        });
+
+          const errorList = response.throttled ? throttledEndpoints : apiErrors;
+          endpoints.forEach(endpoint => {
+            if (!errorList.includes(endpoint)) {
+              errorList.push(endpoint);
+            }
+          });
+          return;
+        }
+
+        const truncated = (response.data as { truncated?: boolean } | undefined)?.truncated;
+        if (truncated && !truncatedCollections.includes(check.endpoints[0])) {
+          truncatedCollections.push(check.endpoints[0]);
+        }
+        diagnostics.push(...(response.diagnostics || []));
+        const extracted = check.extract(response.data);
+        if (!check.schema) {
+          results[check.id] = extracted;
+          return;
+        }
+
+        // Findings are only evaluated on objects that match the check's Graph model
+        const validated = validateGraphData(check.schema, extracted, check.id);
+        results[check.id] = validated.data ?? check.fallback;
+        if (validated.diagnostic) {
+          diagnostics.push(validated.diagnostic);
+        }
+        // A single object that fails its model leaves nothing to evaluate, so the check counts as failed
+        if (extracted != null && !Array.isArray(extracted) && validated.data == null) {
+          failedChecks.push(check.id);
+        }
       });
 
-      // Extract data from responses
-      const [
-        usersResponse,
-        tenantResponse,
-        inactiveUsersResponse,
-        mfaStatusResponse,
-        groupsResponse,
-        passwordNeverExpiresResponse,
-        riskyUsersResponse,
-        emailForwardingResponse,
-        privilegedRolesResponse,
-        guestUsersResponse,
-        sharedMailboxesResponse,
-        deviceComplianceResponse,
-        conditionalAccessResponse,
-        unusedLicensesResponse,
-        securityDefaultsResponse,
-        authStrengthPoliciesResponse,
-        namedLocationsResponse,
-        legacyAuthStatusResponse,
-        selfServicePasswordResetResponse,
-        adminUnitsResponse,
-        pimConfigResponse,
-        sharePointSharingResponse,
-        dlpPoliciesResponse,
-        retentionPoliciesResponse,
-        organizationSettingsResponse,
-        defenderForOfficeResponse,
-        intuneCompliancePoliciesResponse,
-        exchangeTransportRulesResponse,
-        emailAuthenticationResponse
-      ] = responses;
+      const fixture = finishFixtureRecording(recordingSettings.scrub);
+      if (fixture) {
+        downloadGraphFixture(fixture);
+        toast.info(`Recorded ${fixture.entries.length} Graph requests to a fixture file`);
+      }
 
       return {
         success: responses.some(r => r.success),
         apiErrors,
-        users: usersResponse.success ? usersResponse.data.value : [],
-        tenantInfo: tenantResponse.success ? tenantResponse.data.value[0] : null,
-        inactiveUsers: inactiveUsersResponse.success ? inactiveUsersResponse.data.value : [],
-        mfaStatus: mfaStatusResponse.success ? mfaStatusResponse.data.value : [],
-        groups: groupsResponse.success ? groupsResponse.data.value : [],
-        passwordNeverExpires: passwordNeverExpiresResponse.success ? passwordNeverExpiresResponse.data.value : [],
-        riskyUsers: riskyUsersResponse.success ? riskyUsersResponse.data.value : [],
-        emailForwarding: emailForwardingResponse.success ? emailForwardingResponse.data.value : [],
-        privilegedRoles: privilegedRolesResponse.success ? privilegedRolesResponse.data.value : [],
-        guestUsers: guestUsersResponse.success ? guestUsersResponse.data.value : [],
-        sharedMailboxes: sharedMailboxesResponse.success ? sharedMailboxesResponse.data.value : [],
-        deviceCompliance: deviceComplianceResponse.success ? deviceComplianceResponse.data.value : [],
-        conditionalAccess: conditionalAccessResponse.success ? conditionalAccessResponse.data.value : [],
-        unusedLicenses: unusedLicensesResponse.success ? unusedLicensesResponse.data.value : [],
-        securityDefaults: securityDefaultsResponse.success ? securityDefaultsResponse.data : null,
-        authStrengthPolicies: authStrengthPoliciesResponse.success ? authStrengthPoliciesResponse.data : null,
-        namedLocations: namedLocationsResponse.success ? namedLocationsResponse.data.value : [],
-        legacyAuthStatus: legacyAuthStatusResponse.success ? legacyAuthStatusResponse.data : null,
-        passwordResetPolicy: selfServicePasswordResetResponse.success ? selfServicePasswordResetResponse.data : null,
-        administrativeUnits: adminUnitsResponse.success ? adminUnitsResponse.data.value : [],
-        pimConfiguration: pimConfigResponse.success ? pimConfigResponse.data : null,
-        sharePointSharing: sharePointSharingResponse.success ? sharePointSharingResponse.data : null,
-        dlpPolicies: dlpPoliciesResponse.success ? dlpPoliciesResponse.data.value : [],
-        retentionPolicies: retentionPoliciesResponse.success ? retentionPoliciesResponse.data.value : [],
-        organizationSettings: organizationSettingsResponse.success ? organizationSettingsResponse.data : null,
-        defenderForOffice: defenderForOfficeResponse.success ? defenderForOfficeResponse.data : null,
-        intuneCompliancePolicies: intuneCompliancePoliciesResponse.success ? intuneCompliancePoliciesResponse.data.value : [],
-        exchangeTransportRules: exchangeTransportRulesResponse.success ? exchangeTransportRulesResponse.data.value : [],
-        emailAuthentication: emailAuthenticationResponse.success ? emailAuthenticationResponse.data : null
+        throttledEndpoints,
+        truncatedCollections,
+        checksRun: checks.map(check => check.id),
+        failedChecks,
+        missingPermissions,
+        incompleteChecks,
+        diagnostics,
+        cancelled: signal.aborted,
+        directorySync: directorySync ? summarizeDirectorySync(directorySync) : undefined,
+        ...results
       };
     } catch (error) {
       console.error("Microsoft Graph data fetch error:", error);
+      // A failed scan leaves no usable fixture
+      finishFixtureRecording(false);
       handleGraphError(error);
       return {
         success: false,
         apiErrors: [],
+        throttledEndpoints: [],
+        checksRun: [],
+        failedChecks: [],
+        missingPermissions: {},
+        incompleteChecks: {},
+        diagnostics: [],
+        cancelled: signal.aborted,
         error: error instanceof Error ? error.message : "Error fetching Microsoft Graph data"
       };
     }
@@ -446,20 +669,26 @@ export const ScanProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     setIsScanning(true);
     toast.info("Starting security scan...");
+    const controller = new AbortController();
+    scanAbortController.current = controller;
 
     try {
       // Fetch real data from Microsoft Graph
-      const graphResult = await fetchMicrosoftGraphData(accessToken);
+      const graphResult = await fetchMicrosoftGraphData(accessToken, controller.signal);
 
       if (!graphResult.success) {
         toast.warning("Could not retrieve all Microsoft 365 data. Some scan results may be limited.");
       }
 
+      if (graphResult.throttledEndpoints?.length > 0) {
+        toast.warning("Microsoft Graph throttled some requests. Those checks were skipped; try again later.");
+      }
+
       // Create a scan using real data where available
       const scanData = await generateScan(
         accessToken, 
         tenantId, 
-        graphResult.success ? graphResult.tenantInfo?.displayName : undefined,
+        graphResult.success ? (graphResult.tenantInfo as GraphOrganization | null)?.displayName : undefined,
         graphResult.success ? graphResult : null
       );
 
@@ -479,7 +708,13 @@ export const ScanProvider: React.FC<{ children: React.ReactNode }> = ({ children
       latestScanData.issues = scanData.issues; // Ensure issues are included
       setLatestScan(latestScanData);
 
-      toast.success("Security scan completed successfully");
+      if (graphResult.cancelled) {
+        toast.warning("Scan cancelled. Results from the checks that finished were saved.");
+      } else if (scanData.summary.status === "incomplete") {
+        toast.warning("Some checks timed out. Results from the checks that finished were saved.");
+      } else {
+        toast.success("Security scan completed successfully");
+      }
       setIsScanning(false);
       return scanData.summary.id;
     } catch (error) {
@@ -487,11 +722,13 @@ export const ScanProvider: React.FC<{ children: React.ReactNode }> = ({ children
       toast.error("Scan failed. Please try again.");
       setIsScanning(false);
       return null;
+    } finally {
+      scanAbortController.current = null;
     }
   };
 
  // Get scan by ID
-const getScanById = async (scanId: string): Promise<any> => {
+const getScanById = async (scanId: string): Promise<ScanDetails | null> => {
   if (!tenantId) return null;
   
   // Handle the "latest" case
@@ -511,9 +748,21 @@ const getScanById = async (scanId: string): Promise<any> => {
       highRiskIssues: currentScan.summary.issueCountsBySeverity.High,
       mediumRiskIssues: currentScan.summary.issueCountsBySeverity.Medium,
       lowRiskIssues: currentScan.summary.issueCountsBySeverity.Low,
-      issuesFixed: currentScan.issues.filter((i: any) => i.status === "Fixed").length,
+      issuesFixed: currentScan.issues.filter(i => i.status === "Fixed").length,
       usesRealData: currentScan.usesRealData,
         apiErrors: currentScan.apiErrors || [],
+      throttledEndpoints: currentScan.throttledEndpoints || [],
+      truncatedCollections: currentScan.summary.truncatedCollections || [],
+      checksRun: currentScan.checksRun,
+      failedChecks: currentScan.failedChecks || [],
+      missingPermissions: currentScan.missingPermissions || {},
+      incompleteChecks: currentScan.incompleteChecks || {},
+      diagnostics: currentScan.diagnostics || [],
+      dataSource: currentScan.dataSource || "graph",
+      status: currentScan.summary.status || "completed",
+      directorySync: currentScan.directorySync,
+      identityBaseline: currentScan.identityBaseline,
+      administrativeUnitDelegations: currentScan.administrativeUnitDelegations,
       issues: currentScan.issues.map((issue: SecurityIssue) => ({
         id: issue.id,
         title: issue.type,
@@ -533,7 +782,9 @@ const getScanById = async (scanId: string): Promise<any> => {
           issue.affectedObject.name,
           ...(issue.affectedItems || [])
         ],
-        isRealData: issue.isRealData
+        isRealData: issue.isRealData,
+        checkId: issue.checkId,
+        changedItems: issue.changedItems || []
       }))
     };
   }
@@ -541,7 +792,7 @@ const getScanById = async (scanId: string): Promise<any> => {
   // Check local storage
   const savedScan = localStorage.getItem(`scan_${scanId}`);
   if (savedScan) {
-    const parsedScan = JSON.parse(savedScan);
+    const parsedScan: ScanData = JSON.parse(savedScan);
     
     // Ensure the date is properly formatted 
     let formattedDate;
@@ -563,9 +814,21 @@ const getScanById = async (scanId: string): Promise<any> => {
       highRiskIssues: parsedScan.summary.issueCountsBySeverity.High || 0,
       mediumRiskIssues: parsedScan.summary.issueCountsBySeverity.Medium || 0,
       lowRiskIssues: parsedScan.summary.issueCountsBySeverity.Low || 0,
-      issuesFixed: parsedScan.issues.filter((i: any) => i.status === "Fixed").length,
+      issuesFixed: parsedScan.issues.filter(i => i.status === "Fixed").length,
       usesRealData: parsedScan.usesRealData,
         apiErrors: parsedScan.apiErrors || [],
+      throttledEndpoints: parsedScan.throttledEndpoints || [],
+      truncatedCollections: parsedScan.summary.truncatedCollections || [],
+      checksRun: parsedScan.checksRun,
+      failedChecks: parsedScan.failedChecks || [],
+      missingPermissions: parsedScan.missingPermissions || {},
+      incompleteChecks: parsedScan.incompleteChecks || {},
+      diagnostics: parsedScan.diagnostics || [],
+      dataSource: parsedScan.dataSource || "graph",
+      status: parsedScan.summary.status || "completed",
+      directorySync: parsedScan.directorySync,
+      identityBaseline: parsedScan.identityBaseline,
+      administrativeUnitDelegations: parsedScan.administrativeUnitDelegations,
       issues: parsedScan.issues.map((issue: SecurityIssue) => ({
         id: issue.id,
         title: issue.type,
@@ -585,7 +848,9 @@ const getScanById = async (scanId: string): Promise<any> => {
           issue.affectedObject.name,
           ...(issue.affectedItems || [])
         ],
-        isRealData: issue.isRealData
+        isRealData: issue.isRealData,
+        checkId: issue.checkId,
+        changedItems: issue.changedItems || []
       }))
     };
   }
@@ -626,7 +891,7 @@ const getScanById = async (scanId: string): Promise<any> => {
   };
 
   // Helper: Export to PDF using html2pdf
-  const exportToPDF = async (scan: any): Promise<void> => {
+  const exportToPDF = async (scan: ScanDetails): Promise<void> => {
     try {
       const html2pdf = await import("html2pdf.js");
       const pdfContent = document.createElement("div");
@@ -790,7 +1055,7 @@ const getScanById = async (scanId: string): Promise<any> => {
   };
 
   // Convert issues to CSV
-  const convertToCSV = (issues: any[]): string => {
+  const convertToCSV = (issues: ScanDetailsIssue[]): string => {
     const header = [
       "ID",
       "Title",
@@ -847,7 +1112,7 @@ const getScanById = async (scanId: string): Promise<any> => {
       }
 
       // Find the issue to fix
-      const issueToFix = scan.issues.find((issue: any) => issue.id === issueId);
+      const issueToFix = scan.issues.find(issue => issue.id === issueId);
       if (!issueToFix) {
         toast.error("Issue not found");
         setIsFixing(null);
@@ -868,7 +1133,7 @@ const getScanById = async (scanId: string): Promise<any> => {
       }
 
       // Update the issue status
-      const updatedIssues = scan.issues.map((issue: any) =>
+      const updatedIssues = scan.issues.map(issue =>
         issue.id === issueId ? { ...issue, status: "Fixed" } : issue
       );
 
@@ -918,6 +1183,9 @@ const getScanById = async (scanId: string): Promise<any> => {
         localStorage.removeItem(key);
       });
 
+      // Start the next scan from a full directory download
+      clearDirectorySnapshot(tenantId);
+
       toast.success("Scan history cleared successfully");
     } catch (error) {
       console.error("Error clearing scan history:", error);
@@ -934,11 +1202,11 @@ const getScanById = async (scanId: string): Promise<any> => {
         return;
       }
 
-      const allIssues: any[] = [];
+      const allIssues: ScanDetailsIssue[] = [];
       for (const summary of summaries) {
         const scan = await getScanById(summary.id);
         if (scan && scan.issues) {
-          const issuesWithScanId = scan.issues.map((issue: any) => ({
+          const issuesWithScanId = scan.issues.map(issue => ({
             ...issue,
             scanId: scan.id,
             scanDate: new Date(scan.date).toLocaleDateString(),
@@ -983,113 +1251,70 @@ const generateScan = async (
   accessToken: string,
   tenantId: string,
   tenantName?: string,
-  realData?: any
+  realData?: GraphScanResult
 ): Promise<ScanData> => {
   const scanId = `scan_${Date.now().toString(36)}`;
   const issues: SecurityIssue[] = [];
+  const replayed = isReplayingFixture();
   
   // Process real data to find security issues
   if (realData) {
-    // Check for risky users - group into one issue
-    if (realData.riskyUsers?.length > 0) {
-      issues.push({
-        id: `risky_users_${Date.now()}`,
-        type: "Risky Users Detected",
-      severity: "High",
-      affectedObject: {
-        type: "User",
-          id: "multiple",
-          name: "Multiple Users"
-        },
-        description: "Multiple user accounts have been flagged as risky",
-        impact: "Potential account compromise or suspicious activity",
-        remediation: "Review user activity and reset credentials if necessary",
-        status: "Open",
-      isRealData: true,
-        affectedItems: realData.riskyUsers.map((user: any) => 
-          user.userPrincipalName || "Unknown User"
-        )
-      });
-    }
-
-    // Check for users without MFA - group into one issue
-    if (realData.mfaStatus?.length > 0) {
-      const usersWithoutMFA = realData.mfaStatus.filter((user: any) => !user.isMfaEnabled);
-      if (usersWithoutMFA.length > 0) {
+    // Let each check that returned data raise its own issues
+    SECURITY_CHECKS.forEach(check => {
+      if (
+        !check.evaluate ||
+        !realData.checksRun?.includes(check.id) ||
+        realData.failedChecks?.includes(check.id) ||
+        realData.incompleteChecks?.[check.id]
+      ) {
+        return;
+      }
+      const changedObjectIds = new Set<string>(check.snapshot && realData.directorySync?.incremental
+        ? realData.directorySync.changedObjectIds
+        : []);
+      check.evaluate(realData[check.id], { tenantName, results: realData }).forEach(issue => {
+        // Names repeat across objects, so items are matched to changes by the object id behind them
+        const changedItems = (issue.affectedItems || []).filter((_item, index) =>
+          changedObjectIds.has(issue.affectedObjectIds?.[index])
+        );
         issues.push({
-          id: `mfa_disabled_${Date.now()}`,
-          type: "MFA Not Configured",
-          severity: "High",
-        affectedObject: {
-          type: "User",
-            id: "multiple",
-            name: "Multiple Users"
-          },
-          description: "Multiple user accounts do not have Multi-Factor Authentication enabled",
-          impact: "Increased risk of account compromise",
-          remediation: "Enable Multi-Factor Authentication for these users",
-          status: "Open",
-        isRealData: true,
-          affectedItems: usersWithoutMFA.map((user: any) => 
-            user.userPrincipalName || "Unknown User"
-          )
+          ...issue,
+          checkId: check.id,
+          ...(changedItems.length > 0 && { changedItems })
         });
-      }
-    }
+      });
+    });
 
-    // Check for inactive users - group into one issue
-    if (realData.inactiveUsers?.length > 0) {
+    // Name the exact permission each skipped or forbidden check was missing
+    const checksByScope: Record<string, string[]> = {};
+    Object.entries(realData.missingPermissions || {}).forEach(([checkId, scopes]) => {
+      scopes.forEach(scope => {
+        checksByScope[scope] = [...(checksByScope[scope] || []), getSecurityCheck(checkId)?.name || checkId];
+      });
+    });
+
+    Object.entries(checksByScope).forEach(([scope, checkNames]) => {
       issues.push({
-        id: `inactive_users_${Date.now()}`,
-        type: "Inactive Accounts",
+        id: `missing_permission_${scope.toLowerCase().replace(/\W+/g, '_')}_${Date.now()}`,
+        type: `${scope} Permission Required`,
         severity: "Medium",
         affectedObject: {
-          type: "User",
-          id: "multiple",
-          name: "Multiple Users"
+          type: "Policy",
+          id: scope,
+          name: scope
         },
-        description: "Multiple user accounts have been inactive for an extended period",
-        impact: "Potential security risk from unused accounts",
-        remediation: "Review and disable or delete inactive accounts",
+        description: `The scanner has not been granted the ${scope} permission, so these checks could not run`,
+        impact: "Limited visibility into security settings and potential risks",
+        remediation: `Grant admin consent for the Microsoft Graph ${scope} permission on the scanner's app registration`,
         status: "Open",
         isRealData: true,
-        affectedItems: realData.inactiveUsers.map((user: any) => 
-          user.userPrincipalName || "Unknown User"
-        )
+        affectedItems: checkNames
       });
-    }
-
-    // Check for email forwarding rules - group by domain
-    if (realData.emailForwarding?.length > 0) {
-      const externalForwarding = realData.emailForwarding.filter(
-        (rule: any) => rule.forwardTo && !rule.forwardTo.endsWith(tenantName || '')
-      );
-    
-    if (externalForwarding.length > 0) {
-        issues.push({
-          id: `forwarding_rules_${Date.now()}`,
-          type: "External Email Forwarding",
-          severity: "Medium",
-        affectedObject: {
-          type: "Mailbox",
-            id: "multiple",
-            name: "Multiple Mailboxes"
-          },
-          description: "Multiple mailboxes have rules forwarding emails to external addresses",
-          impact: "Potential data leakage through email forwarding",
-          remediation: "Review and remove unauthorized forwarding rules",
-          status: "Open",
-        isRealData: true,
-          affectedItems: externalForwarding.map((rule: any) => 
-            rule.mailbox || "Unknown Mailbox"
-          )
-        });
-      }
-    }
+    });
 
     // Generate issues for failed API endpoints - group by type
     if (realData.apiErrors?.length > 0) {
-      const errorsByType = realData.apiErrors.reduce((acc: any, error: string) => {
+      const errorsByType = realData.apiErrors.reduce<Record<string, string[]>>((acc, error) => {
         const errorType = error.includes('identityProtection') ? 'Identity Protection' :
                          error.includes('mailFolders') ? 'Mail Settings' :
                          error.includes('security') ? 'Security Settings' :
@@ -1103,7 +1328,7 @@ const generateScan = async (
         return acc;
       }, {});
 
-      Object.entries(errorsByType).forEach(([errorType, endpoints]: [string, any]) => {
+      Object.entries(errorsByType).forEach(([errorType, endpoints]) => {
         issues.push({
           id: `api_error_${errorType.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
           type: `${errorType} Access Required`,
@@ -1122,28 +1347,13 @@ const generateScan = async (
         });
       });
     }
+  }
 
-    // Check for guest users - group into one issue
-    if (realData.guestUsers?.length > 0) {
-      issues.push({
-        id: `guest_users_${Date.now()}`,
-        type: "Guest User Access",
-      severity: "Low",
-      affectedObject: {
-          type: "User",
-          id: "multiple",
-          name: "Multiple Guest Users"
-        },
-        description: "Multiple external guest users have access to tenant resources",
-        impact: "Potential security risk from external access",
-        remediation: "Review guest user access and remove if unnecessary",
-        status: "Open",
-      isRealData: true,
-        affectedItems: realData.guestUsers.map((user: any) => 
-          user.userPrincipalName || "Unknown Guest"
-        )
-      });
-    }
+  // Findings replayed from a fixture describe the recording, not the tenant as it is now
+  if (replayed) {
+    issues.forEach(issue => {
+      issue.isRealData = false;
+    });
   }
 
   // Calculate severity counts
@@ -1175,6 +1385,14 @@ if (highIssueCount > 0 || mediumIssueCount > 0 || lowIssueCount > 0) {
   overallRiskScore = Math.max(Math.min(100 + highImpact + mediumImpact + lowImpact, 100), 0);
 }
 
+  // Collections the summary and raw data count, as their checks stored them
+  const users = realData?.users as GraphUser[] | undefined;
+  const groups = realData?.groups as GraphGroup[] | undefined;
+  const policies = realData?.conditionalAccess as ConditionalAccessPolicy[] | undefined;
+  const devices = realData?.deviceCompliance as ManagedDevice[] | undefined;
+  const sharedMailboxes = realData?.sharedMailboxes as GraphUser[] | undefined;
+  const administrativeUnits = realData?.administrativeUnits as AdministrativeUnit[] | undefined;
+
   // Generate summary object
   const summary: ScanSummary = {
     id: scanId,
@@ -1184,11 +1402,17 @@ if (highIssueCount > 0 || mediumIssueCount > 0 || lowIssueCount > 0) {
     overallRiskScore,
     issueCountsByCategory: categoryCount,
     issueCountsBySeverity: severityCount,
-    totalAccountsScanned: realData?.users?.length || 0,
-    totalGroupsScanned: realData?.groups?.length || 0,
-    totalPoliciesScanned: realData?.conditionalAccess?.length || 0,
-    totalDevicesScanned: realData?.deviceCompliance?.length || 0,
-    totalMailboxesScanned: (realData?.sharedMailboxes?.length || 0) + (realData?.emailForwarding?.length || 0),
+    totalAccountsScanned: users?.length || 0,
+    totalGroupsScanned: groups?.length || 0,
+    totalPoliciesScanned: policies?.length || 0,
+    totalDevicesScanned: devices?.length || 0,
+    // Licensed users with mail are the mailboxes the forwarding check reads; emailForwarding holds rules, not mailboxes
+    totalMailboxesScanned: (users || []).filter(user => user.mail && user.assignedLicenses?.length).length
+      + (sharedMailboxes?.length || 0),
+    truncatedCollections: realData?.truncatedCollections || [],
+    status: realData?.cancelled || Object.keys(realData?.incompleteChecks || {}).length > 0
+      ? "incomplete"
+      : "completed",
   };
 
   // Return the final scan data with API errors
@@ -1196,24 +1420,38 @@ if (highIssueCount > 0 || mediumIssueCount > 0 || lowIssueCount > 0) {
     summary,
     issues,
     apiErrors: realData?.apiErrors || [],
-    usesRealData: true,
+    throttledEndpoints: realData?.throttledEndpoints || [],
+    checksRun: realData?.checksRun || [],
+    failedChecks: realData?.failedChecks || [],
+    missingPermissions: realData?.missingPermissions || {},
+    incompleteChecks: realData?.incompleteChecks || {},
+    diagnostics: realData?.diagnostics || [],
+    directorySync: realData?.directorySync,
+    identityBaseline: realData ? getIdentityBaseline(realData) : undefined,
+    administrativeUnitDelegations: administrativeUnits?.length
+      ? getAdministrativeUnitDelegations(administrativeUnits, users || [])
+      : undefined,
+    dataSource: replayed ? "fixture" : "graph",
+    usesRealData: !replayed,
     rawData: {
-      users: realData?.users,
-      groups: realData?.groups,
-      policies: realData?.conditionalAccess,
-      mailRules: realData?.emailForwarding,
-      devices: realData?.deviceCompliance,
-      licenses: realData?.unusedLicenses,
-      roles: realData?.privilegedRoles
+      users,
+      groups,
+      policies,
+      mailRules: realData?.emailForwarding as MailboxForwardingRule[] | undefined,
+      devices,
+      licenses: realData?.unusedLicenses as UnusedLicenses | undefined,
+      roles: realData?.privilegedRoles as DirectoryRole[] | undefined
     }
   };
 };
 
   const value = {
     isScanning,
+    scanProgress,
     currentScan,
     scanHistory,
     startScan,
+    cancelScan,
     getScanById,
     getScanSummaries,
     exportScan,
@@ -1225,6 +1463,7 @@ if (highIssueCount > 0 || mediumIssueCount > 0 || lowIssueCount > 0) {
     clearScanHistory,
     exportAllScanResults,
     emailScanResults,
+    getScanReadiness,
   };
 
   return <ScanContext.Provider value={value}>{children}</ScanContext.Provider>;
@@ -27,6 +27,7 @@ import {
   Laptop,
   Key,
   AlertCircle,
+  X,
 } from "lucide-react";
 import {
   Card,
@@ -44,13 +45,16 @@ import { useScan } from "@/contexts/ScanContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import IssueDetailsModal from "@/components/IssueDetailsModal";
+import ScanReadinessModal from "@/components/ScanReadinessModal";
+import ScanProgressChecklist from "@/components/ScanProgressChecklist";
+import { ScanReadinessReport } from "@/utils/scanReadiness";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const { startNewScan, latestScan, isScanning, fixIssue } = useScan();
-  const { isAuthenticated } = useAuth();
+  const { startNewScan, cancelScan, latestScan, isScanning, scanProgress, fixIssue, getScanReadiness } = useScan();
+  const { isAuthenticated, isReplaying } = useAuth();
   const [expandedCard, setExpandedCard] = useState<string | null>(null);
   const [selectedIssue, setSelectedIssue] = useState(null);
   const [isIssueModalOpen, setIsIssueModalOpen] = useState(false);
@@ -59,7 +63,8 @@ const Dashboard = () => {
   const [applicationId, setApplicationId] = useState(
     localStorage.getItem("setupClientId") || ""
   );
-  const [showSetup, setShowSetup] = useState(!applicationId);
+  const [showSetup, setShowSetup] = useState(!applicationId && !isReplaying);
+  const [readinessReport, setReadinessReport] = useState<ScanReadinessReport | null>(null);
 
   // Defensive check - redirect to home if not authenticated
   React.useEffect(() => {
@@ -75,8 +80,11 @@ const Dashboard = () => {
     }
   }, [applicationId]);
 
-  const handleStartScan = async () => {
-    if (!applicationId) {
+  // Replayed scans never reach Microsoft, so they need no app registration
+  const scannerReady = !!applicationId || isReplaying;
+
+  const handleStartScan = () => {
+    if (!scannerReady) {
       toast.error("Please enter your Application ID to start scanning");
       setShowSetup(true);
       return;
@@ -87,6 +95,18 @@ const Dashboard = () => {
       return;
     }
 
+    // Show which checks the granted permissions allow before scanning
+    const report = getScanReadiness();
+    if (!report) {
+      handleConfirmScan();
+      return;
+    }
+    setReadinessReport(report);
+  };
+
+  const handleConfirmScan = async () => {
+    setReadinessReport(null);
+
     try {
       const scanId = await startNewScan();
       toast.success("Scan started successfully");
@@ -187,25 +207,25 @@ const Dashboard = () => {
           <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between space-y-2 md:space-y-0">
             <div>
               <CardTitle className="text-xl">
-                {applicationId ? (
+                {scannerReady ? (
                   <>SuperVision Risk Scanner Dashboard</>
                 ) : (
                   <>Welcome to SuperVision Risk Scanner</>
                 )}
               </CardTitle>
               <CardDescription>
-                {applicationId
+                {scannerReady
                   ? "Identify vulnerabilities and security risks in your Microsoft 365 environment"
                   : "Set up your Application ID to start scanning"}
               </CardDescription>
             </div>
-            {applicationId ? (
+            {scannerReady ? (
               <div className="flex gap-2">
                 <Button variant="outline" onClick={() => setShowSetup(!showSetup)}>
                   <Settings className="h-4 w-4 mr-2" />
                   Setup
                 </Button>
-                <Button onClick={handleStartScan} disabled={isScanning || !applicationId}>
+                <Button onClick={handleStartScan} disabled={isScanning || !scannerReady}>
                   {isScanning ? (
                     <>
                       <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
@@ -352,6 +372,25 @@ const Dashboard = () => {
           </CardContent>
         </Card>
 
+        {isScanning && (
+          <Card>
+            <CardContent className="pt-6 flex flex-col items-center text-center">
+              <div className="rounded-full bg-blue-50 p-3 mb-4">
+                <RefreshCw className="h-8 w-8 text-blue-500 animate-spin" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">Scan in Progress</h3>
+              <p className="text-muted-foreground mb-6">
+                We're analyzing your Microsoft 365 environment. This may take a few minutes.
+              </p>
+              <ScanProgressChecklist progress={scanProgress} />
+              <Button variant="outline" className="mt-6" onClick={cancelScan}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel Scan
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Supervision Information Card */}
         {applicationId && (
           <Card className="bg-gradient-to-r from-blue-50 to-indigo-50 border-indigo-100">
@@ -732,7 +771,7 @@ const Dashboard = () => {
           </>
         )}
 
-        {!latestScan && !isScanning && applicationId && (
+        {!latestScan && !isScanning && scannerReady && (
           <Card className="bg-slate-50 border-dashed">
             <CardContent className="pt-6 flex flex-col items-center text-center">
               <div className="rounded-full bg-white p-3 shadow-sm mb-4">
@@ -748,26 +787,13 @@ const Dashboard = () => {
           </Card>
         )}
 
-        {isScanning && !latestScan && (
-          <Card>
-            <CardContent className="pt-6 flex flex-col items-center text-center">
-              <div className="rounded-full bg-blue-50 p-3 mb-4">
-                <RefreshCw className="h-8 w-8 text-blue-500 animate-spin" />
-              </div>
-              <h3 className="text-lg font-medium mb-2">Scan in Progress</h3>
-              <p className="text-muted-foreground mb-6">
-                We're analyzing your Microsoft 365 environment. This may take a few minutes.
-              </p>
-              <CustomProgress
-                value={45}
-                max={100}
-                className="w-full max-w-md h-2"
-                indicatorClassName="bg-blue-500"
-              />
-            </CardContent>
-          </Card>
-        )}
-        
+        <ScanReadinessModal
+          isOpen={readinessReport !== null}
+          report={readinessReport}
+          onClose={() => setReadinessReport(null)}
+          onStartScan={handleConfirmScan}
+        />
+
         {/* Issue Details Modal - reuse the same component from scan results */}
         <IssueDetailsModal
           issue={selectedIssue}
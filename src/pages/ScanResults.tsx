@@ -35,37 +35,43 @@
     DropdownMenuTrigger,
   } from "@/components/ui/dropdown-menu";
   import { toast } from "sonner";
-  import { useScan } from "@/contexts/ScanContext";
+  import { ScanDetails, useScan } from "@/contexts/ScanContext";
   import { useAuth } from "@/contexts/AuthContext";
   import AppLayout from "@/components/layouts/AppLayout";
   import IssueDetailsModal from "@/components/IssueDetailsModal";
   import EmailResultsModal from "@/components/EmailResultsModal";
   import ScanHistoryTable from "@/components/ScanHistoryTable";
+  import DelegatedAdminTable from "@/components/DelegatedAdminTable";
+  import { CHECK_CATEGORIES, SECURITY_CHECKS, SecurityCheck, getSecurityCheck } from "@/utils/checkRegistry";
+  import { IdentityBaseline } from "@/utils/conditionalAccess";
 
-  interface Issue {
-    id: string;
-    title: string;
-    description: string;
-    severity: 'High' | 'Medium' | 'Low';
-    status?: 'Fixed';
-    type: string;
-    impact?: string;
-    recommendation?: string;
-    details?: string;
-    affectedItems?: string[];
-    category?: string;
-  }
-
-  interface ScanData {
-    id: string;
-    date: string;
-    issues: Issue[];
-    apiErrors?: string[];
-    highRiskIssues: number;
-    mediumRiskIssues: number;
-    lowRiskIssues: number;
-    issuesFixed: number;
-  }
+  const IDENTITY_BASELINE_LABELS: Record<IdentityBaseline, { label: string; description: string; className: string }> = {
+    securityDefaults: {
+      label: "Security Defaults",
+      description: "Microsoft's fixed baseline requires MFA registration and blocks legacy authentication for everyone.",
+      className: "bg-green-100 text-green-800",
+    },
+    conditionalAccess: {
+      label: "Conditional Access",
+      description: "Enforced Conditional Access policies require MFA or block legacy authentication.",
+      className: "bg-green-100 text-green-800",
+    },
+    both: {
+      label: "Security Defaults and Conditional Access",
+      description: "Both are switched on; Security Defaults override the exceptions built into the policies.",
+      className: "bg-amber-100 text-amber-800",
+    },
+    none: {
+      label: "None",
+      description: "Security Defaults are off and no enforced Conditional Access policy requires MFA or blocks legacy authentication.",
+      className: "bg-red-100 text-red-800",
+    },
+    unknown: {
+      label: "Unknown",
+      description: "The Security Defaults or Conditional Access checks did not return data in this scan.",
+      className: "bg-slate-100 text-slate-800",
+    },
+  };
 
   const ScanResults = () => {
     const { scanId } = useParams();
@@ -74,7 +80,7 @@
     const navigate = useNavigate();
     const { getScanById, exportScanResults, fixIssue, isFixing, emailScanResults } = useScan();
     const { isAuthenticated } = useAuth();
-    const [scan, setScan] = useState<ScanData | null>(null);
+    const [scan, setScan] = useState<ScanDetails | null>(null);
     const [activeTab, setActiveTab] = useState("all");
     const [searchQuery, setSearchQuery] = useState("");
     const [expandedIssues, setExpandedIssues] = useState({});
@@ -256,6 +262,58 @@
       return hasError;
     };
 
+    const renderCheckStatus = (check: SecurityCheck) => {
+      // Scans saved before the registry existed only recorded failing endpoints
+      const missingScopes = scan?.missingPermissions?.[check.id];
+      if (scan?.checksRun && !scan.checksRun.includes(check.id)) {
+        return missingScopes ? (
+          <div className="relative">
+            <span className="text-xs text-amber-700">Skipped</span>
+            <div className="hidden group-hover:block absolute z-10 -top-2 right-14 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
+              Not run: missing the {missingScopes.join(", ")} permission.
+            </div>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">Skipped</span>
+        );
+      }
+
+      const incomplete = scan?.incompleteChecks?.[check.id];
+      if (incomplete) {
+        return (
+          <span className="text-xs text-amber-700">
+            {incomplete === "timeout" ? "Timed out" : "Cancelled"}
+          </span>
+        );
+      }
+
+      const failed = scan?.checksRun
+        ? scan.failedChecks?.includes(check.id)
+        : hasApiError(check.endpoints);
+
+      if (failed) {
+        return (
+          <div className="relative">
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
+              {missingScopes
+                ? `Access denied: missing the ${missingScopes.join(", ")} permission.`
+                : `Unable to check ${check.name.toLowerCase()}. This may require additional permissions.`}
+            </div>
+          </div>
+        );
+      }
+
+      const checkIssues = scan?.issues?.filter(i => i?.checkId === check.id) || [];
+      if (checkIssues.some(i => i.severity === "High")) {
+        return <AlertCircle className="h-4 w-4 text-red-500" />;
+      }
+      if (checkIssues.length > 0) {
+        return <AlertTriangle className="h-4 w-4 text-amber-500" />;
+      }
+      return <CheckCircle2 className="h-4 w-4 text-green-500" />;
+    };
+
     if (loading) {
       return (
         <AppLayout pageTitle="Loading Scan Results">
@@ -385,285 +443,74 @@
                 </div>
               </div>
 
-              <Separator className="my-6" />
-              
-              <div>
-                <h3 className="text-sm font-medium mb-4">Security Checks Performed</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {/* Security Posture Assessments */}
-                  <div className="space-y-3 bg-slate-50 p-4 rounded-lg">
-                    <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">Security Posture</h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Microsoft Secure Score</span>
-                        {hasApiError(['security/secureScores', 'security/secureScoreControlProfiles']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to fetch Secure Score. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "LowSecureScore") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Compliance Score</span>
-                        {hasApiError(['security/complianceScores', 'security/complianceProfiles']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to fetch Compliance Score. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "LowComplianceScore") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Defender Exposure Score</span>
-                        {hasApiError(['security/secureScores/defender', 'security/alerts']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to fetch Defender Score. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "HighExposureScore") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Identity & Access Management */}
-                  <div className="space-y-3 bg-slate-50 p-4 rounded-lg">
-                    <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">Identity & Access</h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Entra ID Configuration</span>
-                        {hasApiError(['policies/authenticationMethodsPolicy', 'policies/authenticationStrengthPolicies']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check Entra ID configuration. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "EntraIDMisconfiguration") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Risky Users</span>
-                        {hasApiError(['identityProtection/riskyUsers', 'users']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check for risky users. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "RiskyUserDetected") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">MFA Configuration</span>
-                        {hasApiError(['policies/authenticationMethodsPolicy', 'policies/conditionalAccessPolicies']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check MFA configuration. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "MFADisabled" || i?.type === "MFAExclusions") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Inactive Users</span>
-                        {hasApiError(['inactiveUsers', 'reports/credentialUserRegistrationDetails']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check for inactive users. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "InactiveUsers") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Admin Role Assignment</span>
-                        {hasApiError(['directoryRoles', 'roleManagement/directory/roleAssignments']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check admin role assignments. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "ExcessiveAdminRoles") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Device & Application Security */}
-                  <div className="space-y-3 bg-slate-50 p-4 rounded-lg">
-                    <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">Device & App Security</h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Device Vulnerabilities</span>
-                        {hasApiError(['deviceManagement/mobileThreatDefenseConnectors', 'deviceManagement/deviceCompliancePolicies', 'deviceManagement/deviceConfigurations']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check device vulnerabilities. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "DeviceVulnerability") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Critical CVEs</span>
-                        {hasApiError(['security/vulnerabilities', 'security/secureScores']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check for critical CVEs. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type?.includes("CVE")) ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">App Registrations</span>
-                        {hasApiError(['applications', 'servicePrincipals']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check app registrations. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "RiskyAppRegistrations") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
+              {scan?.identityBaseline && (
+                <>
+                  <Separator className="my-6" />
+                  <div>
+                    <h3 className="text-sm font-medium mb-4">Sign-In Protection Baseline</h3>
+                    <div className="bg-slate-50 p-4 rounded-lg space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Shield className="h-4 w-4 text-slate-600" />
+                        <span className={`text-xs px-2 py-1 rounded-full ${IDENTITY_BASELINE_LABELS[scan.identityBaseline.baseline].className}`}>
+                          {IDENTITY_BASELINE_LABELS[scan.identityBaseline.baseline].label}
+                        </span>
                       </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Enterprise Applications</span>
-                        {hasApiError(['applications/enterprise', 'servicePrincipals']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check enterprise applications. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "RiskyEnterpriseApps") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
+                      <p className="text-sm text-muted-foreground">
+                        {IDENTITY_BASELINE_LABELS[scan.identityBaseline.baseline].description}
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm">
+                        <span>
+                          Security Defaults:{" "}
+                          {scan.identityBaseline.securityDefaultsEnabled === undefined
+                            ? "not checked"
+                            : scan.identityBaseline.securityDefaultsEnabled ? "enabled" : "disabled"}
+                        </span>
+                        <span>
+                          Enforced MFA or legacy auth policies:{" "}
+                          {scan.identityBaseline.compensatingPolicies === undefined
+                            ? "not checked"
+                            : scan.identityBaseline.compensatingPolicies.length}
+                        </span>
+                        <span>
+                          Conditional Access license:{" "}
+                          {scan.identityBaseline.conditionalAccessLicensed === undefined
+                            ? "not checked"
+                            : scan.identityBaseline.conditionalAccessLicensed ? "available" : "not available"}
+                        </span>
                       </div>
                     </div>
                   </div>
+                </>
+              )}
 
-                  {/* Data Protection */}
-                  <div className="space-y-3 bg-slate-50 p-4 rounded-lg">
-                    <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">Data Protection</h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">Email Forwarding Rules</span>
-                        {hasApiError(['users/mailFolders/messageRules', 'users/mailboxSettings']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check email forwarding rules. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "RiskyEmailForwarding") ? (
-                          <AlertCircle className="h-4 w-4 text-red-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">M365 Backups</span>
-                        {hasApiError(['admin/serviceAnnouncement/issues', 'informationProtection/dataLossPreventionPolicies']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check M365 backup status. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "NoBackupSolution") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                    </div>
+              {scan?.administrativeUnitDelegations?.length > 0 && (
+                <>
+                  <Separator className="my-6" />
+                  <div>
+                    <h3 className="text-sm font-medium mb-4">Delegated Administration by Administrative Unit</h3>
+                    <DelegatedAdminTable delegations={scan.administrativeUnitDelegations} />
                   </div>
+                </>
+              )}
 
-                  {/* License Management */}
-                  <div className="space-y-3 bg-slate-50 p-4 rounded-lg">
-                    <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">License Management</h4>
-                    <div className="space-y-2">
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">License Allocation</span>
-                        {hasApiError(['subscribedSkus', 'users/licenseDetails']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check license allocation. This may require additional permissions.
-                            </div>
-                          </div>
-                        ) : scan?.issues?.some(i => i?.type === "LicenseAllocationIssues") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
-                      </div>
-                      <div className="flex items-center justify-between group relative">
-                        <span className="text-sm">License Usage</span>
-                        {hasApiError(['reports/getOffice365ActivationsUserDetail', 'subscribedSkus']) ? (
-                          <div className="relative">
-                            <AlertTriangle className="h-4 w-4 text-amber-500" />
-                            <div className="hidden group-hover:block absolute z-10 -top-2 right-6 w-48 p-2 bg-amber-50 text-xs text-amber-900 rounded shadow-lg border border-amber-200">
-                              Unable to check license usage. This may require additional permissions.
-                            </div>
+              <Separator className="my-6" />
+              
+              <div>
+                <h3 className="text-sm font-medium mb-4">Security Checks Performed</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {CHECK_CATEGORIES.map(category => (
+                    <div key={category} className="space-y-3 bg-slate-50 p-4 rounded-lg">
+                      <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">{category}</h4>
+                      <div className="space-y-2">
+                        {SECURITY_CHECKS.filter(check => check.category === category).map(check => (
+                          <div key={check.id} className="flex items-center justify-between group relative">
+                            <span className="text-sm">{check.name}</span>
+                            {renderCheckStatus(check)}
                           </div>
-                        ) : scan?.issues?.some(i => i?.type === "UnusedLicenses") ? (
-                          <AlertTriangle className="h-4 w-4 text-amber-500" />
-                        ) : (
-                          <CheckCircle2 className="h-4 w-4 text-green-500" />
-                        )}
+                        ))}
                       </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
                 
                 {/* Show warning counts */}
@@ -676,6 +523,46 @@
                   ) : (
                     <p>All security checks completed successfully with no issues found.</p>
                   )}
+                  {scan?.dataSource === "fixture" && (
+                    <p className="mt-2 text-blue-700">
+                      This scan was replayed from a recorded fixture and does not reflect the live tenant.
+                    </p>
+                  )}
+                  {scan?.status === "incomplete" && (
+                    <p className="mt-2 text-amber-700">
+                      This scan is incomplete: it was cancelled or some checks timed out, so findings from those checks are missing.
+                    </p>
+                  )}
+                  {scan?.throttledEndpoints?.length > 0 && (
+                    <p className="mt-2 text-amber-700">
+                      Microsoft Graph was still throttling these requests after several retries, so their checks were skipped: {scan.throttledEndpoints.join(", ")}
+                    </p>
+                  )}
+                  {scan?.directorySync?.incremental && (
+                    <p className="mt-2 text-blue-700">
+                      Directory checks used changes since {new Date(scan.directorySync.previousSync).toLocaleString()}:{" "}
+                      {scan.directorySync.changedCounts.users} users, {scan.directorySync.changedCounts.groups} groups and{" "}
+                      {scan.directorySync.changedCounts.servicePrincipals} service principals changed.
+                    </p>
+                  )}
+                  {scan?.diagnostics?.length > 0 && (
+                    <div className="mt-2 text-amber-700">
+                      <p>Some Graph objects did not match the shape their checks expect and were left out of the findings:</p>
+                      <ul className="list-disc pl-5 mt-1">
+                        {scan.diagnostics.map(diagnostic => (
+                          <li key={`${diagnostic.source}_${diagnostic.model}`}>
+                            {getSecurityCheck(diagnostic.source)?.name || diagnostic.source}: {diagnostic.invalidCount} of{" "}
+                            {diagnostic.total} {diagnostic.model} objects ({diagnostic.issues.join("; ")})
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {scan?.truncatedCollections?.length > 0 && (
+                    <p className="mt-2 text-amber-700">
+                      Some results were capped at the page limit and may be incomplete: {scan.truncatedCollections.join(", ")}
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -759,6 +646,11 @@
                                         Fixed
                                       </span>
                                     )}
+                                    {issue.changedItems?.length > 0 && (
+                                      <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-blue-100 text-blue-800">
+                                        {issue.changedItems.length} changed since last scan
+                                      </span>
+                                    )}
                                   </h3>
                                   <p className="text-sm text-muted-foreground mt-1">
                                     {issue.description}
@@ -824,7 +716,12 @@
                                           </h4>
                                           <ul className="text-sm space-y-1 pl-5 list-disc text-muted-foreground">
                                             {issue.affectedItems.slice(0, 5).map((item, idx) => (
-                                              <li key={idx}>{item}</li>
+                                              <li key={idx}>
+                                                {item}
+                                                {issue.changedItems?.includes(item) && (
+                                                  <span className="ml-2 text-xs text-blue-700">changed</span>
+                                                )}
+                                              </li>
                                             ))}
                                             {issue.affectedItems.length > 5 && (
                                               <li>
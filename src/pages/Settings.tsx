@@ -1,5 +1,5 @@
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import {
   Card,
   CardContent,
@@ -30,13 +30,27 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useScan } from "@/contexts/ScanContext";
 import { Separator } from "@/components/ui/separator";
 import { useNavigate } from "react-router-dom";
+import {
+  CHECK_CATEGORIES,
+  SECURITY_CHECKS,
+  getDisabledCheckIds,
+  saveDisabledCheckIds,
+} from "@/utils/checkRegistry";
+import {
+  getFixtureRecordingSettings,
+  getReplayFixture,
+  parseGraphFixture,
+  saveFixtureRecordingSettings,
+} from "@/utils/graphFixtures";
 
 const Settings = () => {
   const navigate = useNavigate();
-  const { tenantId, logout } = useAuth();
+  const { tenantId, logout, isReplaying, startReplay, stopReplay } = useAuth();
   const { clearScanHistory, scanHistory, exportAllScanResults } = useScan();
   const [exportLoading, setExportLoading] = useState(false);
   const [clearLoading, setClearLoading] = useState(false);
+  const [fixtureRecording, setFixtureRecording] = useState(getFixtureRecordingSettings);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
   
   // Settings state
   const [settings, setSettings] = useState({
@@ -45,14 +59,9 @@ const Settings = () => {
     scanFrequency: "weekly",
     sendReports: false,
     reportEmail: "",
-    scanDetails: {
-      userSecurity: true,
-      emailSecurity: true,
-      endpointSecurity: true,
-      licenseAudit: true,
-      threatDetection: true,
-      conditionalAccess: true,
-    },
+    scanDetails: Object.fromEntries(
+      SECURITY_CHECKS.map((check) => [check.id, !getDisabledCheckIds().includes(check.id)])
+    ) as Record<string, boolean>,
   });
 
   const handleSettingChange = (setting, value) => {
@@ -73,7 +82,12 @@ const Settings = () => {
   };
 
   const handleSaveSettings = () => {
-    // In a real app, this would save to the backend
+    // Scan check toggles are kept locally so the next scan can skip disabled checks
+    saveDisabledCheckIds(
+      Object.entries(settings.scanDetails)
+        .filter(([, enabled]) => !enabled)
+        .map(([checkId]) => checkId)
+    );
     toast.success("Settings saved successfully");
   };
 
@@ -105,6 +119,35 @@ const Settings = () => {
     }
   };
 
+  const handleFixtureRecordingChange = (setting: "enabled" | "scrub", value: boolean) => {
+    const updated = { ...fixtureRecording, [setting]: value };
+    setFixtureRecording(updated);
+    saveFixtureRecordingSettings(updated);
+  };
+
+  const handleLoadFixture = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const fixture = parseGraphFixture(await file.text());
+      const persisted = startReplay(fixture);
+      toast.success(`Replaying ${fixture.entries.length} recorded Graph requests from ${file.name}`);
+      if (!persisted) {
+        toast.warning("The fixture is too large to keep after a page reload; load it again if you refresh.");
+      }
+    } catch (error) {
+      console.error("Fixture load error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load fixture");
+    }
+  };
+
+  const handleStopReplay = () => {
+    stopReplay();
+    toast.success("Scans will query the live tenant again");
+  };
+
   const handleDisconnect = () => {
     if (window.confirm("Are you sure you want to disconnect from this tenant? You will need to reconnect to perform scans.")) {
       logout();
@@ -239,25 +282,28 @@ const Settings = () => {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {Object.entries(settings.scanDetails).map(([key, value]) => (
-                <div key={key} className="flex items-center justify-between">
-                  <div>
-                    <Label htmlFor={key} className="text-base">
-                      {key
-                        .replace(/([A-Z])/g, " $1")
-                        .replace(/^./, (str) => str.toUpperCase())}
-                    </Label>
-                    <p className="text-sm text-muted-foreground">
-                      Scan for {key
-                        .replace(/([A-Z])/g, " $1")
-                        .toLowerCase()} issues and vulnerabilities
-                    </p>
-                  </div>
-                  <Switch
-                    id={key}
-                    checked={value}
-                    onCheckedChange={(checked) => handleScanDetailChange(key, checked)}
-                  />
+              {CHECK_CATEGORIES.map((category) => (
+                <div key={category} className="space-y-4">
+                  <h4 className="text-sm font-semibold text-slate-900 border-b pb-2">{category}</h4>
+                  {SECURITY_CHECKS.filter((check) => check.category === category).map((check) => (
+                    <div key={check.id} className="flex items-center justify-between">
+                      <div>
+                        <Label htmlFor={check.id} className="text-base">
+                          {check.name}
+                        </Label>
+                        <p className="text-sm text-muted-foreground">
+                          {check.description}
+                          {check.required && " (always included)"}
+                        </p>
+                      </div>
+                      <Switch
+                        id={check.id}
+                        checked={check.required || settings.scanDetails[check.id]}
+                        disabled={check.required}
+                        onCheckedChange={(checked) => handleScanDetailChange(check.id, checked)}
+                      />
+                    </div>
+                  ))}
                 </div>
               ))}
             </CardContent>
@@ -404,6 +450,76 @@ const Settings = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Offline Fixtures</CardTitle>
+              <CardDescription>
+                Record scans to a file and replay them without a live tenant
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="fixture-record">Record scans</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Save every Graph request and response of each scan to a fixture file
+                    </p>
+                  </div>
+                  <Switch
+                    id="fixture-record"
+                    checked={fixtureRecording.enabled}
+                    disabled={isReplaying}
+                    onCheckedChange={(checked) => handleFixtureRecordingChange("enabled", checked)}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="fixture-scrub">Scrub personal data and secrets</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Replace names, email addresses, phone numbers, credentials and the tenant ID with placeholders
+                    </p>
+                  </div>
+                  <Switch
+                    id="fixture-scrub"
+                    checked={fixtureRecording.scrub}
+                    disabled={!fixtureRecording.enabled || isReplaying}
+                    onCheckedChange={(checked) => handleFixtureRecordingChange("scrub", checked)}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Replay a Fixture</h3>
+                <p className="text-sm text-muted-foreground">
+                  {isReplaying
+                    ? `Scans are served from a fixture recorded on ${new Date(getReplayFixture()?.recordedAt).toLocaleString()}${getReplayFixture()?.scrubbed ? " (scrubbed)" : ""}.`
+                    : "Load a fixture file to run scans against it instead of the live tenant"}
+                </p>
+                <input
+                  ref={fixtureInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleLoadFixture}
+                />
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => fixtureInputRef.current?.click()}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    {isReplaying ? "Load Another Fixture" : "Load Fixture"}
+                  </Button>
+                  {isReplaying && (
+                    <Button variant="outline" onClick={handleStopReplay}>
+                      Stop Replay
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </AppLayout>
@@ -0,0 +1,127 @@
+import { SecurityIssue } from "@/contexts/ScanContext";
+import { ADMIN_ROLE_TEMPLATES } from "@/utils/directoryRoles";
+import { AdministrativeUnit, GraphUser } from "@/utils/graphModels";
+
+// Review of administrative units and the admins whose roles are scoped to
+// them, which is how helpdesk tasks such as password resets are delegated by
+// region or department.
+
+// Who holds which role in one administrative unit, for the delegation table
+export interface AdministrativeUnitDelegation {
+  id: string;
+  name: string;
+  restricted: boolean;
+  // Undefined when the members could not be counted
+  memberCount?: number;
+  assignments: {
+    role: string;
+    admin: string;
+    isGuest: boolean;
+  }[];
+}
+
+type ScopedRoleMember = AdministrativeUnit["scopedRoleMembers"][number];
+
+const unitName = (unit: AdministrativeUnit) => unit.displayName || unit.id;
+
+const scopedRoleName = (member: ScopedRoleMember) =>
+  member.roleName || ADMIN_ROLE_TEMPLATES[member.roleTemplateId]?.name || member.roleId;
+
+const isGuestMember = (member: ScopedRoleMember, usersById: Map<string, GraphUser>) => {
+  const user = usersById.get(member.roleMemberInfo.id);
+  const userPrincipalName = user?.userPrincipalName || member.roleMemberInfo.userPrincipalName || "";
+  return user?.userType === "Guest" || userPrincipalName.includes("#EXT#");
+};
+
+/**
+ * List every scoped role assignment, grouped by administrative unit
+ * @param units - Administrative units from the administrativeUnits check
+ * @param users - Directory users, used to name admins and spot guests
+ */
+export function getAdministrativeUnitDelegations(
+  units: AdministrativeUnit[],
+  users: GraphUser[] = []
+): AdministrativeUnitDelegation[] {
+  const usersById = new Map(users.map(user => [user.id, user]));
+  return units.map(unit => ({
+    id: unit.id,
+    name: unitName(unit),
+    restricted: !!unit.isMemberManagementRestricted,
+    memberCount: unit.memberCount,
+    assignments: (unit.scopedRoleMembers || []).map(member => ({
+      role: scopedRoleName(member),
+      admin: usersById.get(member.roleMemberInfo.id)?.userPrincipalName ||
+        member.roleMemberInfo.userPrincipalName ||
+        member.roleMemberInfo.displayName ||
+        member.roleMemberInfo.id,
+      isGuest: isGuestMember(member, usersById),
+    })),
+  }));
+}
+
+/**
+ * Find administrative units that are unprotected, delegated to guests, or unused
+ * @param units - Administrative units from the administrativeUnits check
+ * @param users - Directory users, used to spot guest admins
+ * @returns One issue per kind of problem found
+ */
+export function analyzeAdministrativeUnits(units: AdministrativeUnit[], users: GraphUser[] = []): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const delegations = getAdministrativeUnitDelegations(units, users);
+  const unitIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `administrative_units_${key}_${Date.now()}`,
+    affectedObject: { type: "Role", id: "multiple", name: "Administrative Units" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  const unrestricted = delegations.filter(unit => !unit.restricted);
+  if (unrestricted.length > 0) {
+    issues.push(unitIssue("unrestricted", {
+      type: "Administrative Units Without Restricted Management",
+      severity: "Low",
+      description: `${unrestricted.length} administrative ${unrestricted.length === 1 ? "unit does" : "units do"} not have restricted management enabled`,
+      impact: "Tenant-wide User and Groups Administrators can still change the unit's members, bypassing the delegation it was set up for",
+      remediation: "Enable restricted management on units that hold sensitive accounts such as executives or admins",
+      affectedItems: unrestricted.map(unit => `${unit.name} (${unit.assignments.length} scoped ${unit.assignments.length === 1 ? "admin" : "admins"})`),
+    }));
+  }
+
+  const guestAdmins = delegations.flatMap(unit =>
+    unit.assignments.filter(assignment => assignment.isGuest).map(assignment => `${assignment.admin} (${assignment.role} in ${unit.name})`)
+  );
+  if (guestAdmins.length > 0) {
+    issues.push(unitIssue("guest_admins", {
+      type: "Guests Holding Scoped Admin Roles",
+      severity: "High",
+      description: `${guestAdmins.length} scoped role ${guestAdmins.length === 1 ? "assignment is" : "assignments are"} held by guest accounts`,
+      impact: "Guests authenticate in their home tenant, so password resets in these units depend on another organization's security",
+      remediation: "Replace guest helpdesk admins with member accounts, or remove their scoped roles",
+      affectedItems: guestAdmins,
+    }));
+  }
+
+  const unused = delegations.filter(unit => unit.memberCount === 0 || unit.assignments.length === 0);
+  if (unused.length > 0) {
+    issues.push(unitIssue("unused", {
+      type: "Empty or Unused Administrative Units",
+      severity: "Low",
+      description: `${unused.length} administrative ${unused.length === 1 ? "unit has" : "units have"} no members or no scoped admins`,
+      impact: "Leftover units clutter delegation reviews and can be quietly repopulated to grant access later",
+      remediation: "Delete units that are no longer used, or add the members and scoped admins they were created for",
+      affectedItems: unused.map(unit => {
+        const reasons = [
+          ...(unit.memberCount === 0 ? ["no members"] : []),
+          ...(unit.assignments.length === 0 ? ["no scoped admins"] : []),
+        ];
+        return `${unit.name} (${reasons.join(", ")})`;
+      }),
+    }));
+  }
+
+  return issues;
+}
@@ -0,0 +1,118 @@
+import { SecurityIssue } from "@/contexts/ScanContext";
+import { AuthenticationMethodConfiguration, AuthenticationMethodsPolicy } from "@/utils/graphModels";
+
+// Findings for the tenant's authentication methods policy. Each affected item
+// reads "Setting (current: x; recommended: y)" so the fix is visible in the list.
+
+// Method ids used in authenticationMethodConfigurations
+const METHOD_IDS = {
+  fido2: "Fido2",
+  authenticator: "MicrosoftAuthenticator",
+  sms: "Sms",
+  voice: "Voice",
+  email: "Email",
+};
+
+const findMethod = (policy: AuthenticationMethodsPolicy, id: string): AuthenticationMethodConfiguration | undefined =>
+  (policy.authenticationMethodConfigurations || []).find(method => method.id.toLowerCase() === id.toLowerCase());
+
+const isMethodEnabled = (method?: AuthenticationMethodConfiguration) => method?.state === "enabled";
+
+const describeSetting = (setting: string, current: string, recommended: string) =>
+  `${setting} (current: ${current}; recommended: ${recommended})`;
+
+/**
+ * Find weak or missing settings in the authentication methods policy
+ * @param policy - The tenant's /policies/authenticationMethodsPolicy
+ * @returns One issue per weak setting, each listing current and recommended values
+ */
+export function analyzeAuthenticationMethodsPolicy(policy: AuthenticationMethodsPolicy): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const methodIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `auth_methods_${key}_${Date.now()}`,
+    affectedObject: { type: "Authentication", id: policy.id, name: "Authentication Methods Policy" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  const sms = findMethod(policy, METHOD_IDS.sms);
+  const voice = findMethod(policy, METHOD_IDS.voice);
+  const smsSignIn = isMethodEnabled(sms) && !!sms.includeTargets?.some(target => target.isUsableForSignIn);
+  if (smsSignIn || isMethodEnabled(voice)) {
+    issues.push(methodIssue("phone", {
+      type: "SMS or Voice Enabled as Sign-In Methods",
+      severity: "Medium",
+      description: "SMS sign-in or voice call authentication is enabled in the authentication methods policy",
+      impact: "Phone-based codes and calls can be intercepted through SIM swapping and social engineering of mobile carriers",
+      remediation: "Turn off SMS sign-in and voice calls, and move users to Microsoft Authenticator or passkeys",
+      affectedItems: [
+        ...(smsSignIn ? [describeSetting("SMS", "usable for sign-in", "disabled, or MFA only while users migrate")] : []),
+        ...(isMethodEnabled(voice) ? [describeSetting("Voice call", "enabled", "disabled")] : []),
+      ],
+    }));
+  }
+
+  const fido2 = findMethod(policy, METHOD_IDS.fido2);
+  if (!isMethodEnabled(fido2)) {
+    issues.push(methodIssue("fido2", {
+      type: "Passkeys (FIDO2) Not Enabled",
+      severity: "Medium",
+      description: "The passkey (FIDO2) authentication method is not enabled",
+      impact: "Without passkeys users have no phishing-resistant method, so MFA can still be relayed by adversary-in-the-middle phishing kits",
+      remediation: "Enable passkeys (FIDO2) for at least administrators, and allow device-bound passkeys in Microsoft Authenticator",
+      affectedItems: [describeSetting("Passkey (FIDO2)", fido2?.state || "not configured", "enabled")],
+    }));
+  }
+
+  const authenticator = findMethod(policy, METHOD_IDS.authenticator);
+  if (isMethodEnabled(authenticator)) {
+    const features = authenticator.featureSettings;
+    const weakFeatures = [
+      { name: "Number matching", state: features?.numberMatchingRequiredState?.state },
+      { name: "Show application name", state: features?.displayAppInformationRequiredState?.state },
+      { name: "Show geographic location", state: features?.displayLocationInformationRequiredState?.state },
+    ].filter(feature => feature.state === "disabled");
+    if (weakFeatures.length > 0) {
+      issues.push(methodIssue("authenticator_context", {
+        type: "Authenticator Without Number Matching or Additional Context",
+        severity: "Medium",
+        description: "Microsoft Authenticator push notifications have number matching or additional context turned off",
+        impact: "Users approving pushes without context are open to MFA fatigue attacks that spam approval requests",
+        remediation: "Set number matching, application name and geographic location to enabled or Microsoft managed",
+        affectedItems: weakFeatures.map(feature => describeSetting(feature.name, "disabled", "enabled")),
+      }));
+    }
+  }
+
+  const email = findMethod(policy, METHOD_IDS.email);
+  if (isMethodEnabled(email) && (email.includeTargets || []).length > 0) {
+    issues.push(methodIssue("email_otp", {
+      type: "Email OTP Enabled for Members",
+      severity: "Low",
+      description: "Email one-time passcodes are enabled for users in the tenant, not only for external guests",
+      impact: "Codes sent to a mailbox protect nothing when that mailbox's account is the one being attacked",
+      remediation: "Disable email OTP for members; guests sign in through the separate email one-time passcode setting for B2B",
+      affectedItems: (email.includeTargets || []).map(target =>
+        describeSetting(`Email OTP for ${target.id === "all_users" ? "all users" : `${target.targetType || "target"} ${target.id}`}`, "enabled", "disabled")
+      ),
+    }));
+  }
+
+  const campaignState = policy.registrationEnforcement?.authenticationMethodsRegistrationCampaign?.state;
+  if (campaignState === "disabled") {
+    issues.push(methodIssue("registration_campaign", {
+      type: "Authenticator Registration Campaign Disabled",
+      severity: "Low",
+      description: "The registration campaign that nudges users from SMS and voice to Microsoft Authenticator is turned off",
+      impact: "Users who registered only phone methods are never prompted to move to a stronger method",
+      remediation: "Enable the registration campaign for all users, with a limited number of snoozes",
+      affectedItems: [describeSetting("Registration campaign", "disabled", "enabled")],
+    }));
+  }
+
+  return issues;
+}
@@ -0,0 +1,1183 @@
+import { z } from "zod";
+import { SecurityIssue } from "@/contexts/ScanContext";
+import {
+  GraphApiResponse,
+  GraphRequestOptions,
+  fetchUsers,
+  fetchTenantInfo,
+  checkInactiveUsers,
+  checkUsersWithoutMFA,
+  checkGroupsWithNoOwners,
+  checkPasswordNeverExpires,
+  checkRiskyUsers,
+  checkEmailForwardingRules,
+  checkGlobalAdminRoles,
+  checkGuestUsers,
+  checkSharedMailboxes,
+  checkDeviceCompliance,
+  checkConditionalAccessPolicies,
+  checkUnusedLicenses,
+  checkAdministrativeUnits,
+  checkAuthenticationStrengthPolicies,
+  checkDefenderForOffice,
+  checkEmailAuthentication,
+  checkIntuneCompliancePolicies,
+  checkLegacyAuthenticationStatus,
+  checkNamedLocations,
+  checkOrganizationSettings,
+  checkPrivilegedIdentityManagement,
+  checkSecurityDefaultsStatus,
+  checkSelfServicePasswordReset,
+  checkSharePointExternalSharing,
+  checkSharePointSharing,
+  LEGACY_SIGN_IN_LOOKBACK_DAYS,
+} from "@/utils/graphApi";
+import { DirectoryCollection } from "@/utils/directorySnapshot";
+import { analyzeAdministrativeUnits } from "@/utils/administrativeUnits";
+import { analyzeAuthenticationMethodsPolicy } from "@/utils/authenticationMethods";
+import { analyzeNamedLocations } from "@/utils/namedLocations";
+import { analyzePrivilegedIdentityManagement } from "@/utils/privilegedIdentityManagement";
+import { analyzeSharePointSharing, analyzeSharingLinks } from "@/utils/sharePointSharing";
+import {
+  CheckResults,
+  analyzeAuthenticationStrengthCoverage,
+  analyzeConditionalAccessPolicies,
+  evaluateIdentityBaseline,
+  getIdentityBaseline,
+  getLegacyAuthenticationCoverage,
+  hasResult,
+} from "@/utils/conditionalAccess";
+import {
+  ADMIN_ROLE_TEMPLATES,
+  GLOBAL_ADMINISTRATOR_ROLE_ID,
+  isHighPrivilegeRole,
+} from "@/utils/directoryRoles";
+import {
+  AdministrativeUnit,
+  AuthenticationMethodsPolicy,
+  AuthenticationStrengthStatus,
+  ConditionalAccessPolicy,
+  CredentialUserRegistrationDetails,
+  DirectoryRole,
+  GraphGroup,
+  GraphObject,
+  GraphOrganization,
+  GraphUser,
+  LegacyAuthenticationStatus,
+  MailboxForwardingRule,
+  ManagedDevice,
+  NamedLocation,
+  PimConfiguration,
+  RiskyUser,
+  SecurityDefaultsPolicy,
+  SharePointSharing,
+  SharingLinkScan,
+  administrativeUnitSchema,
+  authenticationMethodsPolicySchema,
+  authenticationStrengthStatusSchema,
+  conditionalAccessPolicySchema,
+  credentialUserRegistrationDetailsSchema,
+  directoryRoleSchema,
+  groupSchema,
+  legacyAuthenticationStatusSchema,
+  mailboxForwardingRuleSchema,
+  managedDeviceSchema,
+  namedLocationSchema,
+  organizationSchema,
+  pimConfigurationSchema,
+  riskyUserSchema,
+  securityDefaultsPolicySchema,
+  sharePointSharingSchema,
+  sharingLinkScanSchema,
+  unusedLicensesSchema,
+  userSchema,
+} from "@/utils/graphModels";
+
+export type CheckCategory =
+  | "Security Posture"
+  | "Identity & Access"
+  | "Device & App Security"
+  | "Data Protection"
+  | "License Management";
+
+export const CHECK_CATEGORIES: CheckCategory[] = [
+  "Security Posture",
+  "Identity & Access",
+  "Device & App Security",
+  "Data Protection",
+  "License Management",
+];
+
+// Everything an evaluator may need besides its own check's result
+export interface CheckEvaluationContext {
+  tenantName?: string;
+  results: CheckResults;
+}
+
+// TResult is what the check stores under its id once extracted and validated
+export interface SecurityCheck<TResult = unknown> {
+  // Key of the check's result in the scan's realData
+  id: string;
+  name: string;
+  description: string;
+  category: CheckCategory;
+  // Graph endpoints the fetcher calls, relative to the API root
+  endpoints: string[];
+  requiredScopes: string[];
+  // Checks other checks depend on cannot be switched off in Settings
+  required?: boolean;
+  fetch: (accessToken: string, options?: GraphRequestOptions) => Promise<GraphApiResponse<unknown>>;
+  // Overrides DEFAULT_CHECK_TIMEOUT_MS for checks known to run long
+  timeoutMs?: number;
+  // Pulls the stored result out of a successful response
+  extract: (data: unknown) => unknown;
+  // Stored result when the fetch fails
+  fallback: TResult;
+  // Graph model of the extracted object, or of each item when it is a list;
+  // objects that do not match are dropped and reported as scan diagnostics
+  schema?: z.ZodTypeAny;
+  evaluate?: (result: TResult, context: CheckEvaluationContext) => SecurityIssue[];
+  // Directory checks answered from the delta-synced snapshot instead of a live query
+  snapshot?: {
+    collection: DirectoryCollection;
+    select: (objects: GraphObject[]) => GraphObject[];
+  };
+}
+
+/**
+ * Declare a check against its own result type, so its fallback and evaluator are checked against it,
+ * and erase that type for the registry, where each result is read back from the scan's realData by id
+ * @param check - The check, typed by the result it stores
+ */
+function defineCheck<TResult>(check: SecurityCheck<TResult>): SecurityCheck {
+  const { evaluate } = check;
+  return {
+    ...check,
+    evaluate: evaluate && ((result, context) => evaluate(result as TResult, context)),
+  };
+}
+
+// How long a check may run before its requests are aborted
+export const DEFAULT_CHECK_TIMEOUT_MS = 120000;
+
+// Enabled accounts with no sign-in for this long are reported as inactive
+const INACTIVE_AFTER_DAYS = 90;
+
+const collection = (data: { value?: unknown[] }) => data?.value || [];
+const object = (data: unknown) => data ?? null;
+
+// Naming conventions that mark an account as a service or automation identity
+const SERVICE_ACCOUNT_PATTERN = /(^|[._\-\s])(svc|service|srv|sync|noreply|no-reply|automation|bot|scanner)([._\-\s@\d]|$)/i;
+
+// Dynamic membership rule attributes a user can change about themselves through
+// their own profile; mail, displayName and userPrincipalName are set by admins
+const USER_EDITABLE_RULE_ATTRIBUTES = [
+  "user.otherMails",
+  "user.mobilePhone",
+  "user.businessPhones",
+  "user.preferredLanguage",
+];
+
+const getUserEditableRuleAttributes = (membershipRule: string): string[] =>
+  USER_EDITABLE_RULE_ATTRIBUTES.filter(attribute =>
+    new RegExp(`\\b${attribute.replace(".", "\\.")}\\b`, "i").test(membershipRule)
+  );
+
+// Devices that have not checked in with Intune for this long count as stale
+const STALE_DEVICE_SYNC_DAYS = 30;
+
+// Global Administrator headcount Microsoft recommends: two break-glass accounts, at most four in total
+const MIN_GLOBAL_ADMINS = 2;
+const MAX_GLOBAL_ADMINS = 4;
+// High-tier roles one user can hold before it counts as role stacking
+const STACKED_ROLE_THRESHOLD = 2;
+
+// Ids of everything holding an administrative role, from the privilegedRoles check;
+// null when that check was switched off, failed or timed out
+const getRoleMemberIds = (results: CheckResults): Set<string> | null =>
+  hasResult(results, "privilegedRoles")
+    ? new Set((results.privilegedRoles as DirectoryRole[] || []).flatMap(role =>
+      (role.members || []).map(member => member.id)
+    ))
+    : null;
+
+// Last sign-in per user id, from the signInActivity the inactiveUsers check reads;
+// null when that check did not complete
+const getLastSignIns = (results: CheckResults): Map<string, string | null> | null =>
+  hasResult(results, "inactiveUsers")
+    ? new Map((results.inactiveUsers as GraphUser[] || []).map(user =>
+      [user.id, user.signInActivity?.lastSignInDateTime ?? null]
+    ))
+    : null;
+
+const describeLastSignIn = (lastSignIns: Map<string, string | null> | null, userId: string) => {
+  if (!lastSignIns?.has(userId)) return "last sign-in unknown";
+  const lastSignIn = lastSignIns.get(userId);
+  return lastSignIn ? `last sign-in ${new Date(lastSignIn).toLocaleDateString()}` : "never signed in";
+};
+
+export const SECURITY_CHECKS: SecurityCheck[] = [
+  {
+    id: "users",
+    name: "User Directory",
+    description: "All user accounts in the tenant",
+    category: "Identity & Access",
+    endpoints: ["users"],
+    requiredScopes: ["User.Read.All"],
+    required: true,
+    fetch: fetchUsers,
+    extract: collection,
+    fallback: [],
+    schema: userSchema,
+    snapshot: {
+      collection: "users",
+      select: (users: GraphUser[]) => users,
+    },
+  },
+  {
+    id: "tenantInfo",
+    name: "Tenant Information",
+    description: "Organization name and verified domains",
+    category: "Security Posture",
+    endpoints: ["organization"],
+    requiredScopes: ["Organization.Read.All"],
+    required: true,
+    fetch: fetchTenantInfo,
+    extract: (data: { value?: GraphOrganization[] }) => data?.value?.[0] ?? null,
+    fallback: null,
+    schema: organizationSchema,
+  },
+  defineCheck<GraphUser[]>({
+    id: "inactiveUsers",
+    name: "Inactive Users",
+    description: "Enabled accounts and their last sign-in activity",
+    category: "Identity & Access",
+    endpoints: ["users"],
+    requiredScopes: ["User.Read.All", "AuditLog.Read.All"],
+    fetch: checkInactiveUsers,
+    extract: collection,
+    fallback: [],
+    schema: userSchema,
+    // No snapshot: Graph does not return signInActivity from the users delta query,
+    // so last sign-ins are read live on every scan
+    evaluate: (users: GraphUser[]) => {
+      const cutoff = Date.now() - INACTIVE_AFTER_DAYS * 24 * 60 * 60 * 1000;
+      const inactiveUsers = users.filter(user => {
+        const lastSignIn = user.signInActivity?.lastSignInDateTime;
+        return lastSignIn && new Date(lastSignIn).getTime() < cutoff;
+      });
+      return inactiveUsers.length > 0 ? [{
+      id: `inactive_users_${Date.now()}`,
+      type: "Inactive Accounts",
+      severity: "Medium",
+      affectedObject: {
+        type: "User",
+        id: "multiple",
+        name: "Multiple Users"
+      },
+      description: "Multiple user accounts have been inactive for an extended period",
+      impact: "Potential security risk from unused accounts",
+      remediation: "Review and disable or delete inactive accounts",
+      status: "Open",
+      isRealData: true,
+      affectedItems: inactiveUsers.map(user =>
+        user.userPrincipalName || "Unknown User"
+      )
+    }] : [];
+    },
+  }),
+  defineCheck<CredentialUserRegistrationDetails[]>({
+    id: "mfaStatus",
+    name: "MFA Registration",
+    description: "Multi-factor authentication registration per user",
+    category: "Identity & Access",
+    endpoints: ["reports/credentialUserRegistrationDetails", "users"],
+    requiredScopes: ["Reports.Read.All", "User.Read.All"],
+    fetch: checkUsersWithoutMFA,
+    extract: collection,
+    fallback: [],
+    schema: credentialUserRegistrationDetailsSchema,
+    evaluate: (mfaStatus: CredentialUserRegistrationDetails[]) => {
+      const usersWithoutMFA = mfaStatus.filter(user => !user.isMfaRegistered);
+      return usersWithoutMFA.length > 0 ? [{
+        id: `mfa_disabled_${Date.now()}`,
+        type: "MFA Not Configured",
+        severity: "High",
+        affectedObject: {
+          type: "User",
+          id: "multiple",
+          name: "Multiple Users"
+        },
+        description: "Multiple user accounts do not have Multi-Factor Authentication enabled",
+        impact: "Increased risk of account compromise",
+        remediation: "Enable Multi-Factor Authentication for these users",
+        status: "Open",
+        isRealData: true,
+        affectedItems: usersWithoutMFA.map(user =>
+          user.userPrincipalName || "Unknown User"
+        )
+      }] : [];
+    },
+  }),
+  defineCheck<GraphGroup[]>({
+    id: "groups",
+    name: "Group Ownership",
+    description: "Group owners, visibility and dynamic membership rules",
+    category: "Identity & Access",
+    endpoints: ["groups"],
+    requiredScopes: ["Group.Read.All"],
+    fetch: checkGroupsWithNoOwners,
+    extract: collection,
+    fallback: [],
+    schema: groupSchema,
+    snapshot: {
+      collection: "groups",
+      // Delta keeps the member list itself, so count it like the live query does
+      select: (groups: GraphGroup[]) => groups.map(group => ({ ...group, memberCount: group.members?.length ?? 0 })),
+    },
+    evaluate: (groups: GraphGroup[]) => {
+      const hasNoOwners = (group: GraphGroup) => (group.owners || []).length === 0;
+      const describeGroup = (group: GraphGroup, detail?: string) => {
+        const members = group.memberCount === undefined
+          ? "member count unknown"
+          : `${group.memberCount.toLocaleString()} ${group.memberCount === 1 ? "member" : "members"}`;
+        return `${group.displayName || group.id} (${[members, detail].filter(Boolean).join("; ")})`;
+      };
+
+      const roleAssignable = groups.filter(group => group.isAssignableToRole && group.securityEnabled && hasNoOwners(group));
+      const ownerless = groups.filter(group => !group.isAssignableToRole && hasNoOwners(group));
+      const publicGroups = groups.filter(group =>
+        (group.groupTypes || []).includes("Unified") && group.visibility?.toLowerCase() === "public"
+      );
+      const dynamicGroups = groups
+        .filter(group => (group.groupTypes || []).includes("DynamicMembership") && group.membershipRule)
+        .map(group => ({ group, attributes: getUserEditableRuleAttributes(group.membershipRule) }))
+        .filter(({ attributes }) => attributes.length > 0);
+
+      const issues: SecurityIssue[] = [];
+      if (roleAssignable.length > 0) {
+        issues.push({
+          id: `role_assignable_groups_no_owner_${Date.now()}`,
+          type: "Role-Assignable Groups Without Owners",
+          severity: "Medium",
+          affectedObject: { type: "Group", id: "multiple", name: "Role-Assignable Groups" },
+          description: `${roleAssignable.length} role-assignable security ${roleAssignable.length === 1 ? "group has" : "groups have"} no owner`,
+          impact: "Nobody is accountable for who is added to groups that grant directory roles",
+          remediation: "Assign owners from the identity team, or review these groups' members through PIM for Groups access reviews",
+          status: "Open",
+          isRealData: true,
+          affectedItems: roleAssignable.map(group => describeGroup(group)),
+          affectedObjectIds: roleAssignable.map(group => group.id)
+        });
+      }
+      if (ownerless.length > 0) {
+        issues.push({
+          id: `groups_no_owner_${Date.now()}`,
+          type: "Groups Without Owners",
+          severity: "Low",
+          affectedObject: { type: "Group", id: "multiple", name: "Ownerless Groups" },
+          description: `${ownerless.length} ${ownerless.length === 1 ? "group has" : "groups have"} no owner`,
+          impact: "Ownerless groups are never reviewed, so stale members keep their access",
+          remediation: "Assign at least two owners to each group, or delete groups that are no longer used",
+          status: "Open",
+          isRealData: true,
+          affectedItems: ownerless.map(group => describeGroup(group)),
+          affectedObjectIds: ownerless.map(group => group.id)
+        });
+      }
+      if (publicGroups.length > 0) {
+        issues.push({
+          id: `public_m365_groups_${Date.now()}`,
+          type: "Public Microsoft 365 Groups",
+          severity: "Low",
+          affectedObject: { type: "Group", id: "multiple", name: "Public Groups" },
+          description: `${publicGroups.length} Microsoft 365 ${publicGroups.length === 1 ? "group is" : "groups are"} public`,
+          impact: "Anyone in the tenant can join a public group and read its conversations, files and Teams channels",
+          remediation: "Make these groups private unless their content is meant for the whole organization",
+          status: "Open",
+          isRealData: true,
+          affectedItems: publicGroups.map(group => describeGroup(group)),
+          affectedObjectIds: publicGroups.map(group => group.id)
+        });
+      }
+      if (dynamicGroups.length > 0) {
+        const securityGroups = dynamicGroups.filter(({ group }) => group.securityEnabled);
+        issues.push({
+          id: `dynamic_groups_editable_rules_${Date.now()}`,
+          type: "Dynamic Groups Using User-Editable Attributes",
+          severity: securityGroups.length > 0 ? "High" : "Medium",
+          affectedObject: { type: "Group", id: "multiple", name: "Dynamic Groups" },
+          description: `${dynamicGroups.length} dynamic ${dynamicGroups.length === 1 ? "group decides" : "groups decide"} membership on attributes users can change themselves`,
+          impact: "A user or guest can edit their own attributes to join these groups and gain the access they grant",
+          remediation: "Base membership rules on attributes only administrators or HR provisioning can set, such as employeeId or department",
+          status: "Open",
+          isRealData: true,
+          affectedItems: dynamicGroups.map(({ group, attributes }) => describeGroup(group, `rule uses ${attributes.join(", ")}`)),
+          affectedObjectIds: dynamicGroups.map(({ group }) => group.id)
+        });
+      }
+      return issues;
+    },
+  }),
+  defineCheck<GraphUser[]>({
+    id: "passwordNeverExpires",
+    name: "Password Expiration",
+    description: "Enabled accounts whose password never expires",
+    category: "Identity & Access",
+    endpoints: ["users"],
+    requiredScopes: ["User.Read.All"],
+    fetch: checkPasswordNeverExpires,
+    extract: collection,
+    fallback: [],
+    schema: userSchema,
+    snapshot: {
+      collection: "users",
+      select: (users: GraphUser[]) => users.filter(user => user.accountEnabled),
+    },
+    evaluate: (users: GraphUser[], { results }) => {
+      const nonExpiring = users.filter(user =>
+        user.accountEnabled !== false &&
+        user.userType !== "Guest" &&
+        (user.passwordPolicies || "").includes("DisablePasswordExpiration")
+      );
+      const roleMemberIds = getRoleMemberIds(results);
+      const lastSignIns = getLastSignIns(results);
+      const isServiceAccount = (user: GraphUser) =>
+        SERVICE_ACCOUNT_PATTERN.test(user.userPrincipalName || "") || SERVICE_ACCOUNT_PATTERN.test(user.displayName || "");
+
+      // Without role data nobody can be ruled out as an admin, so accounts are not split by role
+      const isAdmin = (user: GraphUser) => !!roleMemberIds?.has(user.id);
+      const admins = nonExpiring.filter(isAdmin);
+      const serviceAccounts = nonExpiring.filter(user => !isAdmin(user) && isServiceAccount(user));
+      const members = nonExpiring.filter(user => !isAdmin(user) && !isServiceAccount(user));
+
+      const groups: {
+        users: GraphUser[];
+        kind: string;
+        severity: SecurityIssue["severity"];
+        impact: string;
+        remediation: string;
+      }[] = [
+        {
+          users: admins,
+          kind: "Administrator",
+          severity: "High",
+          impact: "A leaked or guessed admin password stays valid indefinitely and grants privileged access",
+          remediation: "Remove DisablePasswordExpiration from admin accounts and require phishing-resistant MFA for them"
+        },
+        {
+          users: serviceAccounts,
+          kind: "Service Account",
+          severity: "Medium",
+          impact: "Service account credentials are rarely rotated and are often shared or stored in scripts",
+          remediation: "Move automation to managed identities or service principals, or rotate these passwords on a schedule"
+        },
+        roleMemberIds ? {
+          users: members,
+          kind: "Member",
+          severity: "Low",
+          impact: "Compromised passwords remain usable until someone changes them",
+          remediation: "Remove DisablePasswordExpiration, or move the tenant to passwordless sign-in with MFA"
+        } : {
+          users: members,
+          kind: "User",
+          severity: "Medium",
+          impact: "Compromised passwords remain usable until someone changes them; admin role data was unavailable, so some of these accounts may be administrators",
+          remediation: "Re-run the scan with the Admin Role Assignment check enabled to find admins among these accounts, and remove DisablePasswordExpiration"
+        },
+      ];
+
+      return groups.filter(group => group.users.length > 0).map(group => ({
+        id: `password_never_expires_${group.kind.toLowerCase().replace(/\s/g, "_")}_${Date.now()}`,
+        type: `${group.kind} Password Never Expires`,
+        severity: group.severity,
+        affectedObject: {
+          type: "User",
+          id: "multiple",
+          name: `${group.users.length} ${group.kind} ${group.users.length === 1 ? "Account" : "Accounts"}`
+        },
+        description: `${group.users.length} enabled ${group.kind.toLowerCase()} ${group.users.length === 1 ? "account has" : "accounts have"} a password set never to expire`,
+        impact: group.impact,
+        remediation: group.remediation,
+        status: "Open",
+        isRealData: true,
+        affectedItems: group.users.map(user =>
+          `${user.userPrincipalName || user.displayName || user.id} (${describeLastSignIn(lastSignIns, user.id)})`
+        ),
+        affectedObjectIds: group.users.map(user => user.id)
+      }));
+    },
+  }),
+  defineCheck<RiskyUser[]>({
+    id: "riskyUsers",
+    name: "Risky Users",
+    description: "Users flagged by Identity Protection",
+    category: "Identity & Access",
+    endpoints: ["identityProtection/riskyUsers"],
+    requiredScopes: ["IdentityRiskyUser.Read.All"],
+    fetch: checkRiskyUsers,
+    extract: collection,
+    fallback: [],
+    schema: riskyUserSchema,
+    evaluate: (riskyUsers: RiskyUser[]) => riskyUsers.length > 0 ? [{
+      id: `risky_users_${Date.now()}`,
+      type: "Risky Users Detected",
+      severity: "High",
+      affectedObject: {
+        type: "User",
+        id: "multiple",
+        name: "Multiple Users"
+      },
+      description: "Multiple user accounts have been flagged as risky",
+      impact: "Potential account compromise or suspicious activity",
+      remediation: "Review user activity and reset credentials if necessary",
+      status: "Open",
+      isRealData: true,
+      affectedItems: riskyUsers.map(user =>
+        user.userPrincipalName || "Unknown User"
+      )
+    }] : [],
+  }),
+  defineCheck<MailboxForwardingRule[]>({
+    id: "emailForwarding",
+    name: "Email Forwarding Rules",
+    description: "Mailboxes forwarding mail outside the tenant",
+    category: "Data Protection",
+    endpoints: ["users", "users/{id}/mailFolders/inbox/messageRules"],
+    requiredScopes: ["User.Read.All", "MailboxSettings.Read"],
+    fetch: checkEmailForwardingRules,
+    extract: collection,
+    fallback: [],
+    schema: mailboxForwardingRuleSchema,
+    evaluate: (emailForwarding: MailboxForwardingRule[], { results }) => {
+      const tenant = results.tenantInfo as GraphOrganization | null;
+      const tenantDomains = (tenant?.verifiedDomains || []).map(domain => domain.name.toLowerCase());
+      // Without the tenant's domains nothing can be told apart as external
+      const isExternal = (address: string) => tenantDomains.length > 0 &&
+        !tenantDomains.includes(address.split("@").pop()?.toLowerCase() || "");
+      const externalForwarding = emailForwarding.filter(rule => rule.forwardTo.some(isExternal));
+      return externalForwarding.length > 0 ? [{
+        id: `forwarding_rules_${Date.now()}`,
+        type: "External Email Forwarding",
+        severity: "Medium",
+        affectedObject: {
+          type: "Mailbox",
+          id: "multiple",
+          name: "Multiple Mailboxes"
+        },
+        description: "Multiple mailboxes have rules forwarding emails to external addresses",
+        impact: "Potential data leakage through email forwarding",
+        remediation: "Review and remove unauthorized forwarding rules",
+        status: "Open",
+        isRealData: true,
+        affectedItems: externalForwarding.map(rule =>
+          `${rule.mailbox} → ${rule.forwardTo.filter(isExternal).join(", ")}`
+        )
+      }] : [];
+    },
+  }),
+  defineCheck<DirectoryRole[]>({
+    id: "privilegedRoles",
+    name: "Admin Role Assignment",
+    description: "Administrative directory roles and their members",
+    category: "Identity & Access",
+    endpoints: ["directoryRoles"],
+    requiredScopes: ["RoleManagement.Read.All"],
+    fetch: checkGlobalAdminRoles,
+    extract: collection,
+    fallback: [],
+    schema: directoryRoleSchema,
+    evaluate: (roles: DirectoryRole[], { results }) => {
+      // Role members carry few properties, so fill in user details from the directory
+      const usersById = new Map((results.users as GraphUser[] || []).map(user => [user.id, user]));
+      const holders = new Map<string, { member: GraphUser; roles: DirectoryRole[] }>();
+      roles.forEach(role => (role.members || []).forEach(member => {
+        const holder = holders.get(member.id) || { member: { ...member, ...usersById.get(member.id) }, roles: [] };
+        holder.roles.push(role);
+        holders.set(member.id, holder);
+      }));
+
+      const isServicePrincipal = (member: GraphUser) => member["@odata.type"] === "#microsoft.graph.servicePrincipal";
+      const isUser = (member: GraphUser) => !member["@odata.type"] || member["@odata.type"] === "#microsoft.graph.user";
+      const roleNames = (memberRoles: DirectoryRole[]) => memberRoles
+        .map(role => ADMIN_ROLE_TEMPLATES[role.roleTemplateId]?.name || role.displayName)
+        .join(", ");
+      const describeHolder = ({ member, roles: memberRoles }: { member: GraphUser; roles: DirectoryRole[] }) =>
+        `${member.userPrincipalName || member.displayName || member.id} (${roleNames(memberRoles)})`;
+
+      const allHolders = Array.from(holders.values());
+      const globalAdmins = allHolders.filter(({ member, roles: memberRoles }) =>
+        isUser(member) && memberRoles.some(role => role.roleTemplateId === GLOBAL_ADMINISTRATOR_ROLE_ID)
+      );
+      const guestAdmins = allHolders.filter(({ member }) => isUser(member) && member.userType === "Guest");
+      const unlicensedAdmins = allHolders.filter(({ member }) =>
+        isUser(member) && member.userType !== "Guest" && Array.isArray(member.assignedLicenses) && member.assignedLicenses.length === 0
+      );
+      const privilegedServicePrincipals = allHolders.filter(({ member, roles: memberRoles }) =>
+        isServicePrincipal(member) && memberRoles.some(role => isHighPrivilegeRole(role.roleTemplateId))
+      );
+      const stackedAdmins = allHolders.filter(({ member, roles: memberRoles }) =>
+        isUser(member) && memberRoles.filter(role => isHighPrivilegeRole(role.roleTemplateId)).length >= STACKED_ROLE_THRESHOLD
+      );
+
+      const issues: SecurityIssue[] = [];
+      if (globalAdmins.length > MAX_GLOBAL_ADMINS) {
+        issues.push({
+          id: `too_many_global_admins_${Date.now()}`,
+          type: "Too Many Global Administrators",
+          severity: "High",
+          affectedObject: { type: "Role", id: GLOBAL_ADMINISTRATOR_ROLE_ID, name: "Global Administrator" },
+          description: `${globalAdmins.length} accounts hold Global Administrator; Microsoft recommends no more than ${MAX_GLOBAL_ADMINS}`,
+          impact: "Every extra Global Administrator is another account whose compromise hands over the whole tenant",
+          remediation: "Move day-to-day administrators to narrower roles such as User, Exchange or Security Administrator",
+          status: "Open",
+          isRealData: true,
+          affectedItems: globalAdmins.map(describeHolder)
+        });
+      } else if (globalAdmins.length < MIN_GLOBAL_ADMINS) {
+        issues.push({
+          id: `too_few_global_admins_${Date.now()}`,
+          type: "No Break-Glass Global Administrator",
+          severity: "Medium",
+          affectedObject: { type: "Role", id: GLOBAL_ADMINISTRATOR_ROLE_ID, name: "Global Administrator" },
+          description: `Only ${globalAdmins.length} ${globalAdmins.length === 1 ? "account holds" : "accounts hold"} Global Administrator; at least ${MIN_GLOBAL_ADMINS} are needed for emergency access`,
+          impact: "Losing the only Global Administrator account locks the organization out of its own tenant",
+          remediation: "Create two cloud-only emergency access accounts excluded from Conditional Access and monitor their sign-ins",
+          status: "Open",
+          isRealData: true,
+          affectedItems: globalAdmins.map(describeHolder)
+        });
+      }
+      if (guestAdmins.length > 0) {
+        issues.push({
+          id: `guest_admins_${Date.now()}`,
+          type: "Guests Holding Admin Roles",
+          severity: "High",
+          affectedObject: { type: "Role", id: "multiple", name: "Admin Roles" },
+          description: `${guestAdmins.length} guest ${guestAdmins.length === 1 ? "account holds" : "accounts hold"} administrative roles`,
+          impact: "Guest credentials and MFA are managed by another organization, outside your security controls",
+          remediation: "Replace guest administrators with member accounts in this tenant, or remove their roles",
+          status: "Open",
+          isRealData: true,
+          affectedItems: guestAdmins.map(describeHolder)
+        });
+      }
+      if (unlicensedAdmins.length > 0) {
+        issues.push({
+          id: `unlicensed_admins_${Date.now()}`,
+          type: "Unlicensed Accounts Holding Admin Roles",
+          severity: "Medium",
+          affectedObject: { type: "Role", id: "multiple", name: "Admin Roles" },
+          description: `${unlicensedAdmins.length} unlicensed ${unlicensedAdmins.length === 1 ? "account holds" : "accounts hold"} administrative roles`,
+          impact: "Accounts without licenses are easily overlooked in reviews and may lack Identity Protection coverage",
+          remediation: "Confirm each account is a known admin or emergency access account, and remove roles from leftovers",
+          status: "Open",
+          isRealData: true,
+          affectedItems: unlicensedAdmins.map(describeHolder)
+        });
+      }
+      if (privilegedServicePrincipals.length > 0) {
+        issues.push({
+          id: `privileged_service_principals_${Date.now()}`,
+          type: "Service Principals in Privileged Roles",
+          severity: "High",
+          affectedObject: { type: "Application", id: "multiple", name: "Service Principals" },
+          description: `${privilegedServicePrincipals.length} service ${privilegedServicePrincipals.length === 1 ? "principal holds" : "principals hold"} highly privileged directory roles`,
+          impact: "Anyone who obtains the application's secret or certificate gets these roles without MFA",
+          remediation: "Grant applications scoped Graph permissions instead of directory roles, and rotate their credentials",
+          status: "Open",
+          isRealData: true,
+          affectedItems: privilegedServicePrincipals.map(describeHolder)
+        });
+      }
+      if (stackedAdmins.length > 0) {
+        issues.push({
+          id: `stacked_admin_roles_${Date.now()}`,
+          type: "Users Holding Several High-Tier Roles",
+          severity: "Medium",
+          affectedObject: { type: "Role", id: "multiple", name: "Admin Roles" },
+          description: `${stackedAdmins.length} ${stackedAdmins.length === 1 ? "user holds" : "users hold"} ${STACKED_ROLE_THRESHOLD} or more highly privileged roles`,
+          impact: "Stacked roles concentrate privilege in single accounts and usually outlive the task they were granted for",
+          remediation: "Keep one high-tier role per admin account and grant others just in time through PIM",
+          status: "Open",
+          isRealData: true,
+          affectedItems: stackedAdmins.map(describeHolder)
+        });
+      }
+      return issues;
+    },
+  }),
+  defineCheck<GraphUser[]>({
+    id: "guestUsers",
+    name: "Guest Users",
+    description: "External guest accounts",
+    category: "Identity & Access",
+    endpoints: ["users"],
+    requiredScopes: ["User.Read.All"],
+    fetch: checkGuestUsers,
+    extract: collection,
+    fallback: [],
+    schema: userSchema,
+    snapshot: {
+      collection: "users",
+      select: (users: GraphUser[]) => users.filter(user => user.userType === "Guest"),
+    },
+    evaluate: (guestUsers: GraphUser[]) => guestUsers.length > 0 ? [{
+      id: `guest_users_${Date.now()}`,
+      type: "Guest User Access",
+      severity: "Low",
+      affectedObject: {
+        type: "User",
+        id: "multiple",
+        name: "Multiple Guest Users"
+      },
+      description: "Multiple external guest users have access to tenant resources",
+      impact: "Potential security risk from external access",
+      remediation: "Review guest user access and remove if unnecessary",
+      status: "Open",
+      isRealData: true,
+      affectedItems: guestUsers.map(user =>
+        user.userPrincipalName || "Unknown Guest"
+      ),
+      affectedObjectIds: guestUsers.map(user => user.id)
+    }] : [],
+  }),
+  defineCheck<GraphUser[]>({
+    id: "sharedMailboxes",
+    name: "Shared Mailboxes",
+    description: "Shared, room and equipment mailboxes and whether their accounts can sign in",
+    category: "Data Protection",
+    endpoints: ["users", "users/{id}/mailboxSettings/userPurpose"],
+    requiredScopes: ["User.Read.All", "MailboxSettings.Read"],
+    fetch: checkSharedMailboxes,
+    extract: collection,
+    fallback: [],
+    schema: userSchema,
+    // No snapshot: mailbox purpose lives in mailbox settings, which the users delta does not carry
+    evaluate: (mailboxes: GraphUser[], { results }) => {
+      // Only an explicit false blocks sign-in; a missing value leaves the account enabled
+      const signInEnabled = mailboxes.filter(mailbox => mailbox.accountEnabled !== false);
+      if (signInEnabled.length === 0) return [];
+
+      const lastSignIns = getLastSignIns(results);
+      return [{
+        id: `shared_mailbox_sign_in_${Date.now()}`,
+        type: "Shared Mailboxes Allow Direct Sign-In",
+        severity: "Medium",
+        affectedObject: {
+          type: "Mailbox",
+          id: "multiple",
+          name: "Shared Mailboxes"
+        },
+        description: `${signInEnabled.length} shared, room or equipment ${signInEnabled.length === 1 ? "mailbox has" : "mailboxes have"} an account that is enabled for sign-in`,
+        impact: "Nobody owns these passwords, so they are rarely rotated or protected by MFA and are common password-spray targets",
+        remediation: "Block sign-in on the accounts behind shared, room and equipment mailboxes; delegates keep access through mailbox permissions",
+        status: "Open",
+        isRealData: true,
+        affectedItems: signInEnabled.map(mailbox =>
+          `${mailbox.mail || mailbox.userPrincipalName || mailbox.id} (${mailbox.recipientTypeDetails}; accountEnabled ${mailbox.accountEnabled ?? "not set"}; ${describeLastSignIn(lastSignIns, mailbox.id)})`
+        )
+      }];
+    },
+  }),
+  defineCheck<ManagedDevice[]>({
+    id: "deviceCompliance",
+    name: "Device Compliance",
+    description: "Intune managed devices and their compliance state",
+    category: "Device & App Security",
+    endpoints: ["deviceManagement/managedDevices"],
+    requiredScopes: ["DeviceManagementManagedDevices.Read.All"],
+    fetch: checkDeviceCompliance,
+    extract: collection,
+    fallback: [],
+    schema: managedDeviceSchema,
+    evaluate: (devices: ManagedDevice[]) => {
+      const staleBefore = Date.now() - STALE_DEVICE_SYNC_DAYS * 24 * 60 * 60 * 1000;
+      const describeDevice = (device: ManagedDevice, detail?: string) => {
+        const model = [device.manufacturer, device.model].filter(Boolean).join(" ") || "unknown model";
+        const owner = device.userPrincipalName || device.userDisplayName || "no primary user";
+        return `${device.deviceName || device.id} (${[model, owner, detail].filter(Boolean).join("; ")})`;
+      };
+
+      const nonCompliant = devices.filter(device =>
+        device.complianceState === "noncompliant" || device.complianceState === "error"
+      );
+      const stale = devices.filter(device =>
+        device.lastSyncDateTime && new Date(device.lastSyncDateTime).getTime() < staleBefore
+      );
+      // Graph reports jailBroken as the string "True", "False" or "Unknown"
+      const jailBroken = devices.filter(device => device.jailBroken?.toLowerCase() === "true");
+      const unmanagedOrUnencrypted = devices.filter(device =>
+        (device.managementState && device.managementState !== "managed") || device.isEncrypted === false
+      );
+
+      const issues: SecurityIssue[] = [];
+      const nonCompliantByOs = new Map<string, ManagedDevice[]>();
+      nonCompliant.forEach(device => {
+        const os = device.operatingSystem || "Unknown OS";
+        nonCompliantByOs.set(os, [...(nonCompliantByOs.get(os) || []), device]);
+      });
+      nonCompliantByOs.forEach((osDevices, os) => {
+        issues.push({
+          id: `noncompliant_devices_${os.toLowerCase().replace(/\W+/g, "_")}_${Date.now()}`,
+          type: `Non-Compliant ${os} Devices`,
+          severity: "Medium",
+          affectedObject: { type: "Device", id: "multiple", name: `${os} Devices` },
+          description: `${osDevices.length} ${os} ${osDevices.length === 1 ? "device does" : "devices do"} not meet Intune compliance policies`,
+          impact: "Non-compliant devices may lack patches, encryption or passcodes while still holding company data",
+          remediation: "Review the failing compliance settings in Intune and require a compliant device in Conditional Access",
+          status: "Open",
+          isRealData: true,
+          affectedItems: osDevices.map(device => describeDevice(device, device.osVersion ? `${os} ${device.osVersion}` : undefined))
+        });
+      });
+      if (stale.length > 0) {
+        issues.push({
+          id: `stale_devices_${Date.now()}`,
+          type: "Devices Not Syncing With Intune",
+          severity: "Low",
+          affectedObject: { type: "Device", id: "multiple", name: "Stale Devices" },
+          description: `${stale.length} ${stale.length === 1 ? "device has" : "devices have"} not synced with Intune in ${STALE_DEVICE_SYNC_DAYS} days or more`,
+          impact: "Intune cannot apply policies to or report on devices that stopped checking in, so their compliance state is out of date",
+          remediation: "Confirm whether the devices are still in use; retire lost or replaced ones and set up a device cleanup rule",
+          status: "Open",
+          isRealData: true,
+          affectedItems: stale.map(device =>
+            describeDevice(device, `last sync ${new Date(device.lastSyncDateTime).toLocaleDateString()}`)
+          )
+        });
+      }
+      if (jailBroken.length > 0) {
+        issues.push({
+          id: `jailbroken_devices_${Date.now()}`,
+          type: "Jailbroken or Rooted Devices",
+          severity: "High",
+          affectedObject: { type: "Device", id: "multiple", name: "Jailbroken Devices" },
+          description: `${jailBroken.length} ${jailBroken.length === 1 ? "device is" : "devices are"} reported as jailbroken or rooted`,
+          impact: "Jailbroken and rooted devices bypass the operating system's sandbox, so apps and malware can read company data",
+          remediation: "Block jailbroken devices in compliance policies and wipe company data from the affected devices",
+          status: "Open",
+          isRealData: true,
+          affectedItems: jailBroken.map(device => describeDevice(device))
+        });
+      }
+      if (unmanagedOrUnencrypted.length > 0) {
+        issues.push({
+          id: `unmanaged_devices_${Date.now()}`,
+          type: "Unmanaged or Unencrypted Devices",
+          severity: "Medium",
+          affectedObject: { type: "Device", id: "multiple", name: "Unmanaged Devices" },
+          description: `${unmanagedOrUnencrypted.length} ${unmanagedOrUnencrypted.length === 1 ? "device is" : "devices are"} no longer fully managed or ${unmanagedOrUnencrypted.length === 1 ? "has" : "have"} unencrypted storage`,
+          impact: "Data on an unencrypted or unmanaged device is exposed if the device is lost and cannot be wiped remotely",
+          remediation: "Require encryption in compliance policies and re-enroll or retire devices that are not in the managed state",
+          status: "Open",
+          isRealData: true,
+          affectedItems: unmanagedOrUnencrypted.map(device => describeDevice(device, [
+            device.managementState && device.managementState !== "managed" ? `management state ${device.managementState}` : undefined,
+            device.isEncrypted === false ? "not encrypted" : undefined
+          ].filter(Boolean).join(", ")))
+        });
+      }
+      return issues;
+    },
+  }),
+  defineCheck<ConditionalAccessPolicy[]>({
+    id: "conditionalAccess",
+    name: "Conditional Access Policies",
+    description: "All Conditional Access policies",
+    category: "Security Posture",
+    endpoints: ["identity/conditionalAccess/policies"],
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkConditionalAccessPolicies,
+    extract: collection,
+    fallback: [],
+    schema: conditionalAccessPolicySchema,
+    evaluate: (policies: ConditionalAccessPolicy[], { results }) =>
+      analyzeConditionalAccessPolicies(policies, results.groups as GraphGroup[] || [], getIdentityBaseline(results).securityDefaultsEnabled),
+  }),
+  {
+    id: "unusedLicenses",
+    name: "License Usage",
+    description: "Licenses assigned to users who no longer sign in",
+    category: "License Management",
+    endpoints: ["subscribedSkus", "users"],
+    requiredScopes: ["Organization.Read.All", "User.Read.All", "AuditLog.Read.All"],
+    fetch: checkUnusedLicenses,
+    extract: object,
+    fallback: null,
+    schema: unusedLicensesSchema,
+  },
+  defineCheck<SecurityDefaultsPolicy>({
+    id: "securityDefaults",
+    name: "Security Defaults",
+    description: "Whether Entra ID Security Defaults are enforced",
+    category: "Security Posture",
+    endpoints: ["policies/identitySecurityDefaultsEnforcementPolicy"],
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkSecurityDefaultsStatus,
+    extract: object,
+    fallback: null,
+    schema: securityDefaultsPolicySchema,
+    evaluate: (_policy, { results }) => evaluateIdentityBaseline(getIdentityBaseline(results)),
+  }),
+  defineCheck<AuthenticationStrengthStatus>({
+    id: "authStrengthPolicies",
+    name: "Authentication Strengths",
+    description: "Authentication strength policies and the CA policies using them",
+    category: "Identity & Access",
+    endpoints: ["identity/authenticationStrengthPolicies", "identity/conditionalAccess/policies"],
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkAuthenticationStrengthPolicies,
+    extract: object,
+    fallback: null,
+    schema: authenticationStrengthStatusSchema,
+    evaluate: (status: AuthenticationStrengthStatus) => analyzeAuthenticationStrengthCoverage(status),
+  }),
+  defineCheck<NamedLocation[]>({
+    id: "namedLocations",
+    name: "Named Locations",
+    description: "IP and country locations used by Conditional Access",
+    category: "Security Posture",
+    endpoints: ["identity/conditionalAccess/namedLocations"],
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkNamedLocations,
+    extract: collection,
+    fallback: [],
+    schema: namedLocationSchema,
+    evaluate: (locations: NamedLocation[], { results }) =>
+      analyzeNamedLocations(locations, results.conditionalAccess as ConditionalAccessPolicy[] || []),
+  }),
+  defineCheck<LegacyAuthenticationStatus>({
+    id: "legacyAuthStatus",
+    name: "Legacy Authentication",
+    description: "Whether legacy authentication protocols are blocked",
+    category: "Identity & Access",
+    endpoints: ["identity/conditionalAccess/policies", "policies/authenticationMethodsPolicy", "auditLogs/signIns"],
+    // Sign-in logs are optional: without AuditLog.Read.All only the policies are evaluated
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkLegacyAuthenticationStatus,
+    extract: object,
+    fallback: null,
+    schema: legacyAuthenticationStatusSchema,
+    evaluate: (status: LegacyAuthenticationStatus, { results }) => {
+      // Security Defaults block legacy authentication for everyone; undefined when their state is unknown
+      const { securityDefaultsEnabled } = getIdentityBaseline(results);
+      const coverage = getLegacyAuthenticationCoverage(status.conditionalAccessPolicies);
+      const blockedForAllUsers = securityDefaultsEnabled === true || coverage.blockedForAllUsers;
+
+      const signInsByUser = new Map<string, { clientApps: Set<string>; count: number; last: string }>();
+      (status.legacySignIns || []).filter(signIn => signIn.succeeded).forEach(signIn => {
+        const user = signIn.userPrincipalName || signIn.userId || "Unknown user";
+        const entry = signInsByUser.get(user) || { clientApps: new Set<string>(), count: 0, last: signIn.createdDateTime };
+        entry.clientApps.add(signIn.clientAppUsed);
+        entry.count++;
+        if (signIn.createdDateTime > entry.last) entry.last = signIn.createdDateTime;
+        signInsByUser.set(user, entry);
+      });
+
+      const issues: SecurityIssue[] = [];
+      if (!blockedForAllUsers) {
+        issues.push({
+          id: `legacy_auth_not_blocked_${Date.now()}`,
+          type: "Legacy Authentication Not Blocked for All Users",
+          severity: securityDefaultsEnabled === undefined ? "Medium" : "High",
+          affectedObject: { type: "Authentication", id: "legacyAuthentication", name: "Legacy Authentication" },
+          description: securityDefaultsEnabled === undefined
+            ? "No enforced Conditional Access policy blocks legacy authentication for every user; Security Defaults could not be checked and may already block it"
+            : "Neither Security Defaults nor an enforced Conditional Access policy blocks legacy authentication for every user",
+          impact: "IMAP, POP, SMTP AUTH and other legacy protocols skip MFA, so any account they still reach can be taken over with its password alone",
+          remediation: "Enforce a policy for all users and all cloud apps that blocks the Exchange ActiveSync and Other clients app types, excluding only emergency access accounts",
+          status: "Open",
+          isRealData: true,
+          affectedItems: [
+            ...(coverage.gaps.length > 0
+              ? coverage.gaps
+              : ["No Conditional Access policy blocks legacy authentication"]),
+            ...(securityDefaultsEnabled === undefined ? ["Security Defaults (status unknown)"] : []),
+          ]
+        });
+      }
+      if (signInsByUser.size > 0) {
+        issues.push({
+          id: `legacy_auth_sign_ins_${Date.now()}`,
+          type: "Users Signing In With Legacy Authentication",
+          severity: blockedForAllUsers ? "Medium" : "High",
+          affectedObject: { type: "Authentication", id: "legacyAuthentication", name: "Legacy Authentication" },
+          description: `${signInsByUser.size} ${signInsByUser.size === 1 ? "user has" : "users have"} signed in successfully over legacy protocols in the last ${LEGACY_SIGN_IN_LOOKBACK_DAYS} days`,
+          impact: blockedForAllUsers
+            ? "These accounts are exempt from the legacy authentication block and can still be reached by password spray"
+            : "These accounts authenticate without MFA and will break when legacy authentication is blocked",
+          remediation: "Move these users and their devices to modern authentication clients, then block legacy authentication for them",
+          status: "Open",
+          isRealData: true,
+          affectedItems: Array.from(signInsByUser.entries()).map(([user, entry]) =>
+            `${user} (${Array.from(entry.clientApps).join(", ")}; ${entry.count} sign-ins, last ${new Date(entry.last).toLocaleDateString()})`
+          )
+        });
+      }
+      return issues;
+    },
+  }),
+  defineCheck<AuthenticationMethodsPolicy>({
+    id: "passwordResetPolicy",
+    name: "Authentication Methods",
+    description: "Self-service password reset and authentication methods policy",
+    category: "Identity & Access",
+    endpoints: ["policies/authenticationMethodsPolicy"],
+    requiredScopes: ["Policy.Read.All"],
+    fetch: checkSelfServicePasswordReset,
+    extract: object,
+    fallback: null,
+    schema: authenticationMethodsPolicySchema,
+    evaluate: (policy: AuthenticationMethodsPolicy) => analyzeAuthenticationMethodsPolicy(policy),
+  }),
+  defineCheck<AdministrativeUnit[]>({
+    id: "administrativeUnits",
+    name: "Administrative Units",
+    description: "Administrative units and their scoped administrators",
+    category: "Identity & Access",
+    endpoints: ["administrativeUnits", "administrativeUnits/{id}/members", "directoryRoles"],
+    requiredScopes: ["Directory.Read.All"],
+    fetch: checkAdministrativeUnits,
+    extract: collection,
+    fallback: [],
+    schema: administrativeUnitSchema,
+    evaluate: (units: AdministrativeUnit[], { results }) => analyzeAdministrativeUnits(units, results.users as GraphUser[] || []),
+  }),
+  defineCheck<PimConfiguration>({
+    id: "pimConfiguration",
+    name: "Privileged Identity Management",
+    description: "PIM role settings and eligible and active assignments",
+    category: "Identity & Access",
+    endpoints: [
+      "policies/roleManagementPolicyAssignments",
+      "roleManagement/directory/roleEligibilitySchedules",
+      "roleManagement/directory/roleAssignmentSchedules",
+    ],
+    requiredScopes: ["RoleManagement.Read.All"],
+    fetch: checkPrivilegedIdentityManagement,
+    extract: object,
+    fallback: null,
+    schema: pimConfigurationSchema,
+    evaluate: (configuration: PimConfiguration) => analyzePrivilegedIdentityManagement(configuration),
+  }),
+  defineCheck<SharePointSharing>({
+    id: "sharePointSharing",
+    name: "SharePoint External Sharing",
+    description: "Tenant and site external sharing settings",
+    category: "Data Protection",
+    endpoints: ["admin/sharepoint/settings", "sites"],
+    requiredScopes: ["SharePointTenantSettings.Read.All", "Sites.Read.All"],
+    fetch: checkSharePointExternalSharing,
+    extract: object,
+    fallback: null,
+    schema: sharePointSharingSchema,
+    evaluate: (sharing: SharePointSharing) => analyzeSharePointSharing(sharing),
+  }),
+  defineCheck<SharingLinkScan>({
+    id: "sharePointSharingLinks",
+    name: "SharePoint Sharing Links",
+    description: "Anyone links and external-user access in site document libraries",
+    category: "Data Protection",
+    endpoints: ["sites", "sites/{id}/drive/root/delta", "drives/{id}/items/{id}/permissions"],
+    requiredScopes: ["Sites.Read.All"],
+    fetch: checkSharePointSharing,
+    // Walks every site's library, so it needs longer than a single listing
+    timeoutMs: 300000,
+    extract: object,
+    fallback: null,
+    schema: sharingLinkScanSchema,
+    evaluate: (scan: SharingLinkScan) => analyzeSharingLinks(scan),
+  }),
+  // DLP policies, retention labels and transport rules are only readable with
+  // application permissions (InformationProtectionPolicy.Read.All,
+  // Exchange.ManageAsApp) that a signed-in session cannot request, so they have no checks
+  {
+    id: "organizationSettings",
+    name: "Organization Settings",
+    description: "Mobile threat defense connectors and secure score controls",
+    category: "Security Posture",
+    endpoints: ["deviceManagement/mobileThreatDefenseConnectors", "security/secureScoreControlProfiles"],
+    requiredScopes: ["DeviceManagementServiceConfig.Read.All", "SecurityEvents.Read.All"],
+    fetch: checkOrganizationSettings,
+    extract: object,
+    fallback: null,
+  },
+  {
+    id: "defenderForOffice",
+    name: "Defender for Office 365",
+    description: "Anti-phishing, Safe Attachments and Safe Links policies",
+    category: "Data Protection",
+    endpoints: [
+      "security/threatIntelligence/antiphishPolicies",
+      "security/threatIntelligence/safeAttachmentPolicies",
+      "security/threatIntelligence/safeLinksForSafelinkpolicies"
+    ],
+    requiredScopes: ["SecurityEvents.Read.All"],
+    fetch: checkDefenderForOffice,
+    extract: object,
+    fallback: null,
+  },
+  {
+    id: "intuneCompliancePolicies",
+    name: "Intune Compliance Policies",
+    description: "Device compliance policies",
+    category: "Device & App Security",
+    endpoints: ["deviceManagement/deviceCompliancePolicies"],
+    requiredScopes: ["DeviceManagementConfiguration.Read.All"],
+    fetch: checkIntuneCompliancePolicies,
+    extract: collection,
+    fallback: [],
+  },
+  {
+    id: "emailAuthentication",
+    name: "Email Authentication",
+    description: "Domains and their DKIM configuration",
+    category: "Data Protection",
+    endpoints: ["domains", "admin/exchange/domains"],
+    requiredScopes: ["Directory.Read.All"],
+    fetch: checkEmailAuthentication,
+    extract: object,
+    fallback: null,
+  },
+];
+
+const DISABLED_CHECKS_STORAGE_KEY = "disabledSecurityChecks";
+
+/**
+ * Look up a registered check by id
+ * @param checkId - The check's id
+ */
+export function getSecurityCheck(checkId: string): SecurityCheck | undefined {
+  return SECURITY_CHECKS.find(check => check.id === checkId);
+}
+
+/**
+ * Ids of the checks switched off in Settings
+ */
+export function getDisabledCheckIds(): string[] {
+  try {
+    const saved = localStorage.getItem(DISABLED_CHECKS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Error reading disabled security checks:", error);
+    return [];
+  }
+}
+
+/**
+ * Persist the checks switched off in Settings; required checks always stay on
+ * @param checkIds - Ids of the checks to skip in future scans
+ */
+export function saveDisabledCheckIds(checkIds: string[]): void {
+  const disabled = checkIds.filter(id => !getSecurityCheck(id)?.required);
+  localStorage.setItem(DISABLED_CHECKS_STORAGE_KEY, JSON.stringify(disabled));
+}
+
+/**
+ * The checks a new scan should run
+ */
+export function getEnabledChecks(): SecurityCheck[] {
+  const disabled = getDisabledCheckIds();
+  return SECURITY_CHECKS.filter(check => check.required || !disabled.includes(check.id));
+}
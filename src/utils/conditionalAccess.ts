@@ -0,0 +1,476 @@
+import { IncompleteReason, SecurityIssue } from "@/contexts/ScanContext";
+import { ADMIN_ROLE_TEMPLATES, isAdminRole, isHighPrivilegeRole } from "@/utils/directoryRoles";
+import {
+  AuthenticationStrengthPolicy,
+  AuthenticationStrengthStatus,
+  ConditionalAccessPolicy,
+  GraphGroup,
+  SecurityDefaultsPolicy,
+  UnusedLicenses,
+} from "@/utils/graphModels";
+
+// Rule-based review of Conditional Access policies. Each rule looks at the
+// whole policy set and reports a gap, naming the policies that caused it or
+// that came closest to closing it.
+
+// Client app types Graph uses for legacy authentication protocols
+export const LEGACY_CLIENT_APP_TYPES = ["exchangeActiveSync", "other"];
+
+// Exclusions beyond these sizes are reported as broad
+const MAX_EXCLUDED_USERS = 5;
+const BROAD_EXCLUDED_GROUP_MEMBERS = 50;
+
+// Excluded users a tenant-wide block may keep for emergency access accounts
+const EMERGENCY_ACCESS_EXCLUSIONS = 2;
+
+// Special values Graph uses in place of ids in policy conditions
+const ALL = "All";
+const NONE = "None";
+
+/**
+ * Whether a policy is switched on and enforced, rather than report-only or disabled
+ * @param policy - The Conditional Access policy
+ */
+export function isEnforced(policy: ConditionalAccessPolicy): boolean {
+  return policy.state === "enabled";
+}
+
+/**
+ * Whether a policy's grant controls require MFA, directly or through an authentication strength
+ * @param policy - The Conditional Access policy
+ */
+export function requiresMfa(policy: ConditionalAccessPolicy): boolean {
+  return !!policy.grantControls?.builtInControls?.includes("mfa") || !!policy.grantControls?.authenticationStrength;
+}
+
+/**
+ * Whether a policy applies to holders of administrative directory roles
+ * @param policy - The Conditional Access policy
+ */
+export function targetsAdminRoles(policy: ConditionalAccessPolicy): boolean {
+  const users = policy.conditions?.users;
+  return !!users?.includeUsers?.includes(ALL) || !!users?.includeRoles?.some(isAdminRole);
+}
+
+/**
+ * Whether a policy blocks every legacy authentication client app type
+ * @param policy - The Conditional Access policy
+ */
+export function blocksLegacyAuthentication(policy: ConditionalAccessPolicy): boolean {
+  const clientAppTypes = policy.conditions?.clientAppTypes || [];
+  return !!policy.grantControls?.builtInControls?.includes("block") &&
+    LEGACY_CLIENT_APP_TYPES.every(type => clientAppTypes.includes(type));
+}
+
+/**
+ * Whether a policy reacts to sign-in risk or user risk
+ * @param policy - The Conditional Access policy
+ */
+export function isRiskBased(policy: ConditionalAccessPolicy): boolean {
+  return !!policy.conditions?.signInRiskLevels?.length || !!policy.conditions?.userRiskLevels?.length;
+}
+
+const policyName = (policy: ConditionalAccessPolicy) => policy.displayName || policy.id;
+
+const describeState = (policy: ConditionalAccessPolicy) =>
+  policy.state === "enabledForReportingButNotEnforced" ? "report-only" : policy.state;
+
+// Why a legacy authentication block leaves some sign-ins out, or null when it covers everyone
+const getLegacyBlockGapReason = (policy: ConditionalAccessPolicy): string | null => {
+  const users = policy.conditions?.users;
+  const applications = policy.conditions?.applications;
+  if (!isEnforced(policy)) return describeState(policy);
+  if (!users?.includeUsers?.includes(ALL)) return "not applied to all users";
+  if (applications && !applications.includeApplications?.includes(ALL)) return "not applied to all cloud apps";
+  const excludedUsers = users.excludeUsers?.length || 0;
+  if (excludedUsers > EMERGENCY_ACCESS_EXCLUSIONS) return `excludes ${excludedUsers} users`;
+  const excludedGroupsAndRoles = (users.excludeGroups?.length || 0) + (users.excludeRoles?.length || 0);
+  if (excludedGroupsAndRoles > 0) return `excludes ${excludedGroupsAndRoles} ${excludedGroupsAndRoles === 1 ? "group or role" : "groups or roles"}`;
+  return null;
+};
+
+/**
+ * Work out whether Conditional Access blocks legacy authentication for every user
+ * @param policies - All Conditional Access policies in the tenant
+ * @returns Whether one policy blocks it for everyone, and why each other blocking policy falls short
+ */
+export function getLegacyAuthenticationCoverage(
+  policies: ConditionalAccessPolicy[]
+): { blockedForAllUsers: boolean; gaps: string[] } {
+  const blockingPolicies = policies.filter(blocksLegacyAuthentication);
+  const gaps = blockingPolicies.flatMap(policy => {
+    const reason = getLegacyBlockGapReason(policy);
+    return reason ? [`${policyName(policy)} (${reason})`] : [];
+  });
+  return { blockedForAllUsers: gaps.length < blockingPolicies.length, gaps };
+}
+
+// Why a policy can never match a sign-in, or null when it can
+const getEmptyConditionReason = (policy: ConditionalAccessPolicy): string | null => {
+  const users = policy.conditions?.users;
+  const applications = policy.conditions?.applications;
+  const includesUsers = [
+    ...(users?.includeUsers || []).filter(id => id !== NONE),
+    ...(users?.includeGroups || []),
+    ...(users?.includeRoles || []),
+  ].length > 0 || !!users?.includeGuestsOrExternalUsers;
+  if (!includesUsers) return "includes no users, groups or roles";
+
+  const includesApps = [
+    ...(applications?.includeApplications || []).filter(id => id !== NONE),
+    ...(applications?.includeUserActions || []),
+    ...(applications?.includeAuthenticationContextClassReferences || []),
+  ].length > 0;
+  if (applications && !includesApps) return "includes no applications or user actions";
+  return null;
+};
+
+// Why a policy's exclusions are broad, or null when they are narrow
+const getBroadExclusionReason = (policy: ConditionalAccessPolicy, groupsById: Map<string, GraphGroup>): string | null => {
+  const users = policy.conditions?.users;
+  const reasons: string[] = [];
+  const excludedUsers = users?.excludeUsers || [];
+  if (excludedUsers.length > MAX_EXCLUDED_USERS) {
+    reasons.push(`excludes ${excludedUsers.length} users`);
+  }
+  (users?.excludeGroups || []).forEach(groupId => {
+    const group = groupsById.get(groupId);
+    if (group?.memberCount !== undefined && group.memberCount >= BROAD_EXCLUDED_GROUP_MEMBERS) {
+      reasons.push(`excludes group ${group.displayName || groupId} with ${group.memberCount} members`);
+    }
+  });
+  if (users?.excludeGuestsOrExternalUsers) {
+    reasons.push("excludes guests and external users");
+  }
+  return reasons.length > 0 ? reasons.join(", ") : null;
+};
+
+/**
+ * Find gaps in a tenant's Conditional Access policies
+ * @param policies - All Conditional Access policies in the tenant
+ * @param groups - Groups with member counts, used to size excluded groups
+ * @param securityDefaultsEnabled - Security Defaults already require MFA for admins and block legacy
+ * authentication; undefined when their state is unknown, which softens those two findings
+ * @returns One issue per rule the policy set breaks
+ */
+export function analyzeConditionalAccessPolicies(
+  policies: ConditionalAccessPolicy[],
+  groups: GraphGroup[] = [],
+  securityDefaultsEnabled?: boolean
+): SecurityIssue[] {
+  const groupsById = new Map(groups.map(group => [group.id, group]));
+  const issues: SecurityIssue[] = [];
+  const policyIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `conditional_access_${key}_${Date.now()}`,
+    affectedObject: { type: "Policy", id: "multiple", name: "Conditional Access Policies" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  // With the baseline unknown, Security Defaults may already cover the admin MFA and legacy gaps
+  const baselineUnknown = securityDefaultsEnabled === undefined;
+  const baselineCaveat = baselineUnknown ? "; Security Defaults could not be checked and may already cover this" : "";
+  const baselineItems = baselineUnknown ? ["Security Defaults (status unknown)"] : [];
+
+  const adminMfaPolicies = policies.filter(policy => requiresMfa(policy) && targetsAdminRoles(policy));
+  if (!securityDefaultsEnabled && !adminMfaPolicies.some(isEnforced)) {
+    issues.push(policyIssue("admin_mfa", {
+      type: "No Conditional Access MFA for Admin Roles",
+      severity: baselineUnknown ? "Medium" : "High",
+      description: `No enabled Conditional Access policy requires MFA for administrative directory roles${baselineCaveat}`,
+      impact: "A stolen administrator password is enough to sign in and take over the tenant",
+      remediation: "Enable a policy that targets the administrative roles and requires MFA or a phishing-resistant authentication strength",
+      affectedItems: [
+        ...adminMfaPolicies.map(policy => `${policyName(policy)} (requires MFA for admins but is ${describeState(policy)})`),
+        ...baselineItems,
+      ],
+    }));
+  }
+
+  const legacyBlockPolicies = policies.filter(blocksLegacyAuthentication);
+  if (!securityDefaultsEnabled && !legacyBlockPolicies.some(isEnforced)) {
+    issues.push(policyIssue("legacy_auth", {
+      type: "Legacy Authentication Not Blocked",
+      severity: baselineUnknown ? "Medium" : "High",
+      description: `No enabled Conditional Access policy blocks legacy authentication client apps${baselineCaveat}`,
+      impact: "Legacy protocols cannot do MFA, so password spray and replay attacks bypass every MFA requirement",
+      remediation: "Enable a policy for all users that blocks the Exchange ActiveSync and Other clients client app types",
+      affectedItems: [
+        ...legacyBlockPolicies.map(policy => `${policyName(policy)} (blocks legacy authentication but is ${describeState(policy)})`),
+        ...baselineItems,
+      ],
+    }));
+  }
+
+  const notEnforced = policies.filter(policy => !isEnforced(policy));
+  if (notEnforced.length > 0) {
+    issues.push(policyIssue("not_enforced", {
+      type: "Conditional Access Policies Not Enforced",
+      severity: "Low",
+      description: `${notEnforced.length} Conditional Access ${notEnforced.length === 1 ? "policy is" : "policies are"} in report-only mode or disabled`,
+      impact: "Policies that are not enforced give no protection, and forgotten ones make the policy set harder to reason about",
+      remediation: "Review the report-only results in the sign-in logs, then enable the policies you need and delete the rest",
+      affectedItems: notEnforced.map(policy => `${policyName(policy)} (${describeState(policy)})`),
+    }));
+  }
+
+  const broadExclusions = policies.flatMap(policy => {
+    const reason = getBroadExclusionReason(policy, groupsById);
+    return reason ? [`${policyName(policy)} (${reason})`] : [];
+  });
+  if (broadExclusions.length > 0) {
+    issues.push(policyIssue("broad_exclusions", {
+      type: "Broad Conditional Access Exclusions",
+      severity: "Medium",
+      description: `${broadExclusions.length} Conditional Access ${broadExclusions.length === 1 ? "policy excludes" : "policies exclude"} large numbers of users`,
+      impact: "Excluded users skip the policy entirely, so large exclusions quietly leave many accounts unprotected",
+      remediation: "Limit exclusions to emergency access accounts and review the excluded users and groups regularly",
+      affectedItems: broadExclusions,
+    }));
+  }
+
+  const riskPolicies = policies.filter(isRiskBased);
+  if (!riskPolicies.some(isEnforced)) {
+    issues.push(policyIssue("risk_based", {
+      type: "No Risk-Based Conditional Access",
+      severity: "Medium",
+      description: "No enabled Conditional Access policy responds to sign-in risk or user risk",
+      impact: "Sign-ins and accounts Identity Protection flags as risky are let through without MFA or a password change",
+      remediation: "Enable policies that require MFA for medium and high sign-in risk and a secure password change for high user risk",
+      affectedItems: riskPolicies.map(policy => `${policyName(policy)} (risk-based but is ${describeState(policy)})`),
+    }));
+  }
+
+  const neverApply = policies.flatMap(policy => {
+    const reason = getEmptyConditionReason(policy);
+    return reason ? [`${policyName(policy)} (${reason})`] : [];
+  });
+  if (neverApply.length > 0) {
+    issues.push(policyIssue("never_apply", {
+      type: "Conditional Access Policies That Never Apply",
+      severity: "Low",
+      description: `${neverApply.length} Conditional Access ${neverApply.length === 1 ? "policy has" : "policies have"} empty conditions and never applies`,
+      impact: "These policies look like protection in the portal but match no sign-in",
+      remediation: "Assign the intended users and applications to each policy, or delete it",
+      affectedItems: neverApply,
+    }));
+  }
+
+  return issues;
+}
+
+// Entra ID P1 and P2 service plans; either one licenses Conditional Access
+const CONDITIONAL_ACCESS_SERVICE_PLAN_IDS = [
+  "41781fb2-bc02-4b7c-bd55-b576c07bb09d",
+  "eec0eb4f-6444-4f95-aba0-50c24d67f998",
+];
+
+export type IdentityBaseline = "securityDefaults" | "conditionalAccess" | "both" | "none" | "unknown";
+
+// Which baseline protects the tenant's sign-ins. Fields are undefined when
+// the check they come from did not run or failed.
+export interface IdentityBaselineStatus {
+  baseline: IdentityBaseline;
+  securityDefaultsEnabled?: boolean;
+  // Enforced policies that require MFA or block legacy authentication
+  compensatingPolicies?: string[];
+  conditionalAccessLicensed?: boolean;
+}
+
+// A scan's realData: each check's stored result under its id, plus which checks ran
+export interface CheckResults {
+  checksRun?: string[];
+  failedChecks?: string[];
+  incompleteChecks?: Record<string, IncompleteReason>;
+  [checkId: string]: unknown;
+}
+
+/**
+ * Whether a check ran to completion, so its stored result means something
+ * @param results - The scan's realData, keyed by check id
+ * @param checkId - Id of the check in SECURITY_CHECKS
+ */
+export const hasResult = (results: CheckResults, checkId: string) =>
+  !!results.checksRun?.includes(checkId) &&
+  !results.failedChecks?.includes(checkId) &&
+  !results.incompleteChecks?.[checkId];
+
+/**
+ * Work out whether Security Defaults, Conditional Access, both or neither protect the tenant
+ * @param results - The scan's realData, keyed by check id
+ */
+export function getIdentityBaseline(results: CheckResults): IdentityBaselineStatus {
+  const securityDefaults = results.securityDefaults as SecurityDefaultsPolicy | null;
+  const securityDefaultsEnabled = hasResult(results, "securityDefaults") && securityDefaults
+    ? securityDefaults.isEnabled === true
+    : undefined;
+  const serviceNameMap = hasResult(results, "unusedLicenses")
+    ? (results.unusedLicenses as UnusedLicenses | null)?.serviceNameMap
+    : undefined;
+  const conditionalAccessLicensed = serviceNameMap
+    ? CONDITIONAL_ACCESS_SERVICE_PLAN_IDS.some(id => id in serviceNameMap)
+    : undefined;
+
+  let compensatingPolicies: string[] | undefined;
+  if (hasResult(results, "conditionalAccess")) {
+    compensatingPolicies = (results.conditionalAccess as ConditionalAccessPolicy[] || [])
+      .filter(policy => isEnforced(policy) && (requiresMfa(policy) || blocksLegacyAuthentication(policy)))
+      .map(policyName);
+  } else if (conditionalAccessLicensed === false) {
+    // Without a license the tenant cannot have enforced policies
+    compensatingPolicies = [];
+  }
+
+  let baseline: IdentityBaseline = "unknown";
+  if (securityDefaultsEnabled && compensatingPolicies?.length) {
+    baseline = "both";
+  } else if (securityDefaultsEnabled) {
+    baseline = "securityDefaults";
+  } else if (compensatingPolicies?.length) {
+    baseline = "conditionalAccess";
+  } else if (securityDefaultsEnabled === false && compensatingPolicies) {
+    baseline = "none";
+  }
+
+  return { baseline, securityDefaultsEnabled, compensatingPolicies, conditionalAccessLicensed };
+}
+
+/**
+ * Raise issues for a tenant protected by neither baseline, or not using the one it pays for
+ * @param status - The tenant's baseline, from getIdentityBaseline
+ */
+export function evaluateIdentityBaseline(status: IdentityBaselineStatus): SecurityIssue[] {
+  const baselineIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `identity_baseline_${key}_${Date.now()}`,
+    affectedObject: { type: "SecurityDefaults", id: "identitySecurityDefaultsEnforcementPolicy", name: "Security Defaults" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  if (status.baseline === "none") {
+    return [baselineIssue("none", {
+      type: "No Baseline Sign-In Protection",
+      severity: "High",
+      description: "Security Defaults are disabled and no enforced Conditional Access policy requires MFA or blocks legacy authentication",
+      impact: "Every account can sign in with a password alone, including over legacy protocols, leaving the tenant open to password spray and phishing",
+      remediation: "Turn Security Defaults back on, or enforce Conditional Access policies that require MFA and block legacy authentication",
+      affectedItems: [
+        "Security Defaults (disabled)",
+        status.conditionalAccessLicensed === false
+          ? "Conditional Access (not licensed)"
+          : "Conditional Access (no enforced MFA or legacy authentication policy)",
+      ],
+    })];
+  }
+  if (status.baseline === "both") {
+    return [baselineIssue("both", {
+      type: "Security Defaults and Conditional Access Both in Use",
+      severity: "Low",
+      description: "Security Defaults are enabled alongside enforced Conditional Access policies",
+      impact: "Security Defaults cannot be tuned, so their rules override the exclusions and exceptions designed into the Conditional Access policies",
+      remediation: "Once the Conditional Access policies cover MFA and legacy authentication for everyone, disable Security Defaults",
+      affectedItems: ["Security Defaults (enabled)", ...status.compensatingPolicies.map(name => `${name} (enforced)`)],
+    })];
+  }
+  if (status.baseline === "securityDefaults" && status.conditionalAccessLicensed) {
+    return [baselineIssue("licensed", {
+      type: "Conditional Access Licensed but Unused",
+      severity: "Low",
+      description: "Security Defaults protect the tenant although its Entra ID P1 or P2 licenses include Conditional Access",
+      impact: "Security Defaults apply one fixed policy to everyone, without risk-based, device or location conditions",
+      remediation: "Plan Conditional Access policies for MFA, legacy authentication and risk, then replace Security Defaults with them",
+      affectedItems: ["Security Defaults (enabled)", "Conditional Access (licensed, no enforced MFA or legacy authentication policy)"],
+    })];
+  }
+  return [];
+}
+
+// Method combinations that resist phishing; a strength allowing anything else does not
+const PHISHING_RESISTANT_COMBINATIONS = ["windowsHelloForBusiness", "fido2", "x509CertificateMultiFactor"];
+
+/**
+ * Whether every method combination an authentication strength accepts is phishing-resistant
+ * @param strength - The authentication strength policy
+ */
+export function isPhishingResistantStrength(strength: AuthenticationStrengthPolicy): boolean {
+  return strength.allowedCombinations.length > 0 &&
+    strength.allowedCombinations.every(combination => PHISHING_RESISTANT_COMBINATIONS.includes(combination));
+}
+
+// Whether an enforced policy applies to a role for every cloud app
+const coversRole = (policy: ConditionalAccessPolicy, roleTemplateId: string) => {
+  const users = policy.conditions?.users;
+  const applications = policy.conditions?.applications;
+  const includesRole = !!users?.includeUsers?.includes(ALL) || !!users?.includeRoles?.includes(roleTemplateId);
+  const allApps = !applications || !!applications.includeApplications?.includes(ALL);
+  return isEnforced(policy) && includesRole && allApps && !users?.excludeRoles?.includes(roleTemplateId);
+};
+
+/**
+ * Find privileged roles without a phishing-resistant MFA requirement, and custom strengths that allow phone methods
+ * @param status - Authentication strengths and CA policies from the authStrengthPolicies check
+ * @returns Issues whose affected items list each high-tier admin role as covered or not
+ */
+export function analyzeAuthenticationStrengthCoverage(status: AuthenticationStrengthStatus): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const phishingResistantIds = new Set(status.strengthPolicies.filter(isPhishingResistantStrength).map(strength => strength.id));
+  const phishingResistantPolicies = status.conditionalAccessPolicies.filter(policy =>
+    phishingResistantIds.has(policy.grantControls?.authenticationStrength?.id)
+  );
+
+  const roleCoverage = Object.entries(ADMIN_ROLE_TEMPLATES)
+    .filter(([roleTemplateId]) => isHighPrivilegeRole(roleTemplateId))
+    .map(([roleTemplateId, role]) => ({
+      name: role.name,
+      coveredBy: phishingResistantPolicies.filter(policy => coversRole(policy, roleTemplateId)).map(policyName),
+    }));
+  const uncovered = roleCoverage.filter(role => role.coveredBy.length === 0);
+  if (uncovered.length > 0) {
+    issues.push({
+      id: `phishing_resistant_admins_${Date.now()}`,
+      type: "Admin Roles Without Phishing-Resistant MFA",
+      severity: "High",
+      affectedObject: { type: "Role", id: "multiple", name: "Admin Roles" },
+      description: `${uncovered.length} of ${roleCoverage.length} highly privileged roles are not covered by an enforced Conditional Access policy requiring a phishing-resistant authentication strength`,
+      impact: "Administrators using push, SMS or OTP codes can be phished through adversary-in-the-middle proxies that relay the MFA prompt",
+      remediation: "Enforce a policy for all cloud apps that targets every privileged role and requires the Phishing-resistant MFA strength",
+      status: "Open",
+      isRealData: true,
+      affectedItems: [
+        ...uncovered.map(role => `${role.name} (not covered)`),
+        ...roleCoverage.filter(role => role.coveredBy.length > 0).map(role => `${role.name} (covered by ${role.coveredBy.join(", ")})`),
+      ],
+    });
+  }
+
+  const phoneStrengths = status.strengthPolicies.filter(strength =>
+    strength.policyType === "custom" &&
+    strength.allowedCombinations.some(combination => /\b(sms|voice)\b/.test(combination))
+  );
+  if (phoneStrengths.length > 0) {
+    issues.push({
+      id: `strength_phone_methods_${Date.now()}`,
+      type: "Custom Authentication Strengths Allow SMS or Voice",
+      severity: "Medium",
+      affectedObject: { type: "Authentication", id: "multiple", name: "Authentication Strengths" },
+      description: `${phoneStrengths.length} custom authentication ${phoneStrengths.length === 1 ? "strength accepts" : "strengths accept"} SMS or voice call combinations`,
+      impact: "Policies requiring these strengths can be satisfied with phone codes, which are open to SIM swapping and phishing",
+      remediation: "Remove SMS and voice combinations from custom strengths, or switch the policies to a built-in strength",
+      status: "Open",
+      isRealData: true,
+      affectedItems: phoneStrengths.map(strength =>
+        `${strength.displayName || strength.id} (allows ${strength.allowedCombinations.filter(combination => /\b(sms|voice)\b/.test(combination)).join("; ")})`
+      ),
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,55 @@
+// Built-in Entra ID role templates the scanner treats as administrative, by
+// roleTemplateId. Template ids are identical in every tenant, unlike role
+// display names, which are localized and shared with harmless reader roles.
+
+export const GLOBAL_ADMINISTRATOR_ROLE_ID = "62e90394-69f5-4237-9190-012177145e10";
+export const PRIVILEGED_ROLE_ADMINISTRATOR_ROLE_ID = "e8611ab8-c189-46e8-94e1-60213ab1f814";
+
+export type RoleTier = "high" | "standard";
+
+export interface AdminRoleTemplate {
+  name: string;
+  // "high" roles can take over the tenant or its identities on their own
+  tier: RoleTier;
+}
+
+export const ADMIN_ROLE_TEMPLATES: Record<string, AdminRoleTemplate> = {
+  [GLOBAL_ADMINISTRATOR_ROLE_ID]: { name: "Global Administrator", tier: "high" },
+  [PRIVILEGED_ROLE_ADMINISTRATOR_ROLE_ID]: { name: "Privileged Role Administrator", tier: "high" },
+  "7be44c8a-adaf-4e2a-84d6-ab2649e08a13": { name: "Privileged Authentication Administrator", tier: "high" },
+  "194ae4cb-b126-40b2-bd5b-6091b380977d": { name: "Security Administrator", tier: "high" },
+  "9b895d92-2cd3-44c7-9d02-a6ac2d5ea5c3": { name: "Application Administrator", tier: "high" },
+  "158c047a-c907-4556-b7ef-446551a6b5f7": { name: "Cloud Application Administrator", tier: "high" },
+  "8ac3fc64-6eca-42ea-9e69-59f4c7b60eb2": { name: "Hybrid Identity Administrator", tier: "high" },
+  "b1be1c3e-b65d-4f19-8427-f6fa0d97feb9": { name: "Conditional Access Administrator", tier: "high" },
+  "29232cdf-9323-42fd-ade2-1d097af3e4de": { name: "Exchange Administrator", tier: "high" },
+  "f28a1f50-f6e7-4571-818b-6a12f2af6b6c": { name: "SharePoint Administrator", tier: "high" },
+  "3a2c62db-5318-420d-8d74-23affee5d9d5": { name: "Intune Administrator", tier: "high" },
+  "fe930be7-5e62-47db-91af-98c3a49a38b1": { name: "User Administrator", tier: "high" },
+  "c4e39bd9-1100-46d3-8c65-fb160da0071f": { name: "Authentication Administrator", tier: "high" },
+  "729827e3-9c14-49f7-bb1b-9608f156bbb8": { name: "Helpdesk Administrator", tier: "standard" },
+  "966707d0-3269-4727-9be2-8c3a10f19b9d": { name: "Password Administrator", tier: "standard" },
+  "fdd7a751-b60b-444a-984c-02652fe8fa1c": { name: "Groups Administrator", tier: "standard" },
+  "4d6ac14f-3453-41d0-bef9-a3e0c569773a": { name: "License Administrator", tier: "standard" },
+  "69091246-20e8-4a56-aa4d-066075b2a7a8": { name: "Teams Administrator", tier: "standard" },
+  "e6d1a23a-da11-4be4-9570-befc86d067a7": { name: "Compliance Data Administrator", tier: "standard" },
+  "17315797-102d-40b4-93e0-432062caca18": { name: "Compliance Administrator", tier: "standard" },
+  "b0f54661-2d74-4c50-afa3-1ec803f12efe": { name: "Billing Administrator", tier: "standard" },
+  "9360feb5-f418-4baa-8175-e2a00bac4301": { name: "Directory Writers", tier: "standard" },
+};
+
+/**
+ * Whether a role template grants administrative rights
+ * @param roleTemplateId - The role's template id
+ */
+export function isAdminRole(roleTemplateId: string): boolean {
+  return roleTemplateId in ADMIN_ROLE_TEMPLATES;
+}
+
+/**
+ * Whether a role template is one of the tenant-takeover roles
+ * @param roleTemplateId - The role's template id
+ */
+export function isHighPrivilegeRole(roleTemplateId: string): boolean {
+  return ADMIN_ROLE_TEMPLATES[roleTemplateId]?.tier === "high";
+}
@@ -0,0 +1,184 @@
+import { GraphRequestOptions, callGraphApiDelta } from "@/utils/graphApi";
+import { GraphObject } from "@/utils/graphModels";
+
+export type DirectoryCollection = "users" | "groups" | "servicePrincipals";
+
+const DIRECTORY_COLLECTIONS: DirectoryCollection[] = ["users", "groups", "servicePrincipals"];
+
+// First-sync endpoints; later syncs resume from the stored delta link instead
+const DELTA_ENDPOINTS: Record<DirectoryCollection, string> = {
+  users: "/users/delta?$select=id,displayName,userPrincipalName,mail,accountEnabled,userType,createdDateTime,externalUserState,passwordPolicies,assignedLicenses,jobTitle,department,companyName",
+  groups: "/groups/delta?$select=id,displayName,description,visibility,membershipRule,groupTypes,securityEnabled,mailEnabled,isAssignableToRole,owners,members",
+  servicePrincipals: "/servicePrincipals/delta?$select=id,displayName,appId,appOwnerOrganizationId,accountEnabled,servicePrincipalType",
+};
+
+// Multi-valued navigation properties that delta returns as "<name>@delta" change lists
+const DELTA_RELATIONSHIPS = ["owners", "members"];
+
+// Bumped whenever DELTA_ENDPOINTS selects new properties; delta links keep
+// their original $select, so older snapshots are discarded and synced afresh
+const SNAPSHOT_VERSION = 3;
+
+export interface DirectorySnapshot {
+  version: number;
+  tenantId: string;
+  updatedAt: string;
+  objects: Record<DirectoryCollection, Record<string, GraphObject>>;
+  deltaLinks: Partial<Record<DirectoryCollection, string>>;
+  // Collections whose last delta round hit the page cap and are still catching up
+  incomplete: DirectoryCollection[];
+}
+
+export interface DirectorySyncResult {
+  snapshot: DirectorySnapshot;
+  // False when every collection had to be downloaded from scratch
+  incremental: boolean;
+  // When the snapshot was last synced before this run
+  previousSync?: string;
+  changedIds: Record<DirectoryCollection, string[]>;
+  // Collections that could not be synced; their checks fall back to live queries
+  failedCollections: DirectoryCollection[];
+}
+
+const snapshotKey = (tenantId: string) => `directorySnapshot_${tenantId}`;
+
+/**
+ * Load the cached directory snapshot for a tenant
+ * @param tenantId - The tenant the snapshot belongs to
+ */
+export function loadDirectorySnapshot(tenantId: string): DirectorySnapshot | null {
+  try {
+    const saved = localStorage.getItem(snapshotKey(tenantId));
+    const snapshot: DirectorySnapshot | null = saved ? JSON.parse(saved) : null;
+    return snapshot?.version === SNAPSHOT_VERSION ? snapshot : null;
+  } catch (error) {
+    console.error("Error reading directory snapshot:", error);
+    return null;
+  }
+}
+
+/**
+ * Cache a directory snapshot; if it does not fit in storage the next scan starts a full sync
+ * @param snapshot - The snapshot to store
+ */
+export function saveDirectorySnapshot(snapshot: DirectorySnapshot): void {
+  try {
+    localStorage.setItem(snapshotKey(snapshot.tenantId), JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn("Directory snapshot is too large to cache; the next scan will sync in full:", error);
+    localStorage.removeItem(snapshotKey(snapshot.tenantId));
+  }
+}
+
+/**
+ * Forget the cached directory snapshot and its delta links
+ * @param tenantId - The tenant the snapshot belongs to
+ */
+export function clearDirectorySnapshot(tenantId: string): void {
+  localStorage.removeItem(snapshotKey(tenantId));
+}
+
+// Apply one delta item to the cached object it describes
+const mergeDeltaItem = (objects: Record<string, GraphObject>, item: GraphObject) => {
+  if (item["@removed"]) {
+    delete objects[item.id];
+    return;
+  }
+
+  const merged = { ...(objects[item.id] || {}), ...item };
+
+  DELTA_RELATIONSHIPS.forEach(relationship => {
+    const relationshipChanges = item[`${relationship}@delta`] as GraphObject[] | undefined;
+    if (!relationshipChanges) return;
+
+    const current = objects[item.id]?.[relationship] as GraphObject[] || [];
+    const removed = relationshipChanges.filter(r => r["@removed"]).map(r => r.id);
+    const added = relationshipChanges.filter(r => !r["@removed"]);
+    merged[relationship] = [
+      ...current.filter(r => !removed.includes(r.id) && !added.some(a => a.id === r.id)),
+      ...added
+    ];
+    delete merged[`${relationship}@delta`];
+  });
+
+  objects[item.id] = merged;
+};
+
+/**
+ * Bring the tenant's cached users, groups and service principals up to date
+ * using Graph delta queries, downloading in full only what has no delta link yet
+ * @param accessToken - The Microsoft Graph access token
+ * @param tenantId - The tenant being scanned
+ * @param options - AbortSignal and observer notified of each delta request and page
+ */
+export async function syncDirectorySnapshot(
+  accessToken: string,
+  tenantId: string,
+  options?: GraphRequestOptions
+): Promise<DirectorySyncResult> {
+  const cached = loadDirectorySnapshot(tenantId);
+  const snapshot: DirectorySnapshot = cached || {
+    version: SNAPSHOT_VERSION,
+    tenantId,
+    updatedAt: new Date().toISOString(),
+    objects: { users: {}, groups: {}, servicePrincipals: {} },
+    deltaLinks: {},
+    incomplete: [],
+  };
+
+  const changedIds: Record<DirectoryCollection, string[]> = { users: [], groups: [], servicePrincipals: [] };
+  const failedCollections: DirectoryCollection[] = [];
+  let incremental = false;
+
+  await Promise.all(DIRECTORY_COLLECTIONS.map(async collection => {
+    const deltaLink = snapshot.deltaLinks[collection];
+    let response = await callGraphApiDelta<GraphObject>(deltaLink || DELTA_ENDPOINTS[collection], accessToken, undefined, options);
+
+    // An expired delta link means starting that collection over
+    let fullSync = !deltaLink;
+    if (!response.success && deltaLink && response.statusCode === 410) {
+      snapshot.objects[collection] = {};
+      response = await callGraphApiDelta<GraphObject>(DELTA_ENDPOINTS[collection], accessToken, undefined, options);
+      fullSync = true;
+    }
+
+    if (!response.success) {
+      failedCollections.push(collection);
+      return;
+    }
+
+    // A round resumed from a next link is still part of the first download
+    fullSync = fullSync || snapshot.incomplete.includes(collection);
+    if (!fullSync) {
+      incremental = true;
+    }
+
+    response.data.value.forEach(item => {
+      mergeDeltaItem(snapshot.objects[collection], item);
+      if (!fullSync) {
+        changedIds[collection].push(item.id);
+      }
+    });
+
+    snapshot.deltaLinks[collection] = response.data.resumeLink;
+    snapshot.incomplete = snapshot.incomplete.filter(c => c !== collection);
+    if (response.data.truncated) {
+      snapshot.incomplete.push(collection);
+    }
+  }));
+
+  const previousSync = cached?.updatedAt;
+  snapshot.updatedAt = new Date().toISOString();
+  saveDirectorySnapshot(snapshot);
+
+  return { snapshot, incremental, previousSync, changedIds, failedCollections };
+}
+
+/**
+ * All cached objects of one directory collection
+ * @param snapshot - The synced snapshot
+ * @param collection - Which collection to read
+ */
+export function getSnapshotObjects(snapshot: DirectorySnapshot, collection: DirectoryCollection): GraphObject[] {
+  return Object.values(snapshot.objects[collection] || {});
+}
@@ -1,13 +1,202 @@
-
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { toast } from "sonner";
+import {
+  AdministrativeUnit,
+  AuthenticationMethodsPolicy,
+  AuthenticationStrengthPolicy,
+  AuthenticationStrengthStatus,
+  CalendarPermission,
+  ConditionalAccessPolicy,
+  CredentialUserRegistrationDetails,
+  DirectoryRole,
+  DriveItem,
+  DrivePermission,
+  GraphDomain,
+  GraphGroup,
+  GraphModelDiagnostic,
+  GraphObject,
+  GraphOrganization,
+  GraphUser,
+  InactiveAdmin,
+  LegacyAuthenticationStatus,
+  LegacySignIn,
+  MailboxDelegation,
+  MailboxForwardingRule,
+  ManagedDevice,
+  MessageRule,
+  NamedLocation,
+  PimConfiguration,
+  RiskyUser,
+  RoleManagementPolicyAssignment,
+  RoleSchedule,
+  SecurityDefaultsPolicy,
+  ServicePrincipal,
+  SharePointSettings,
+  SharePointSharing,
+  SharePointSite,
+  SharingLink,
+  SharingLinkScan,
+  SignIn,
+  SubscribedSku,
+  UnusedLicenses,
+  UserForwardingRules,
+  subscribedSkuSchema,
+  validateGraphData,
+} from "@/utils/graphModels";
+import {
+  isRecordingFixture,
+  isReplayingFixture,
+  recordGraphExchange,
+  replayGraphRequest,
+} from "@/utils/graphFixtures";
+import { isAdminRole } from "@/utils/directoryRoles";
 
 // Interface for a Graph API response with error handling
-interface GraphApiResponse<T> {
+export interface GraphApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
   statusCode?: number;
+  throttled?: boolean;
+  // The caller's AbortSignal fired before the request completed
+  aborted?: boolean;
+  // Objects a fetcher dropped because they did not match their Graph model
+  diagnostics?: GraphModelDiagnostic[];
+}
+
+// Callbacks a caller can attach to follow the requests made on its behalf
+export interface GraphRequestObserver {
+  // Every HTTP request sent, including retries
+  onRequest?: () => void;
+  // A throttled request is about to be retried
+  onRetry?: () => void;
+  // A page of a collection or delta query has been read
+  onPage?: (page: number, maxPages: number) => void;
+}
+
+// Per-call options for cancelling requests and following their progress
+export interface GraphRequestOptions {
+  signal?: AbortSignal;
+  observer?: GraphRequestObserver;
+}
+
+// Response for requests cut short by their AbortSignal
+const abortedResponse = <T>(): GraphApiResponse<T> => ({
+  success: false,
+  error: "Request cancelled",
+  statusCode: 499,
+  aborted: true
+});
+
+// A failed response carries no data, so it can be handed back as a response of any type
+const asFailure = <T>(response: GraphApiResponse<unknown>): GraphApiResponse<T> => ({
+  ...response,
+  data: undefined
+});
+
+// Error fetch() would throw for an aborted signal, for the waits it does not cover
+const abortError = () => new DOMException("Request cancelled", "AbortError");
+
+const GRAPH_BASE_URL = "https://graph.microsoft.com/beta";
+const DEFAULT_MAX_PAGES = 50;
+
+// Throttling and concurrency limits shared by every Graph request
+const MAX_CONCURRENT_REQUESTS = 6;
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+const RETRYABLE_STATUS_CODES = [429, 503, 504];
+
+let activeRequests = 0;
+const waitingRequests: (() => void)[] = [];
+
+// Wait for one of the global request slots to become free
+async function acquireRequestSlot(): Promise<void> {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++;
+    return;
+  }
+  await new Promise<void>(resolve => waitingRequests.push(resolve));
+}
+
+// Hand the slot to the next waiting request, or free it
+function releaseRequestSlot(): void {
+  const next = waitingRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequests--;
+  }
+}
+
+/**
+ * Work out how long to wait before retrying a throttled request
+ * @param retryAfter - The Retry-After header of the 429/503/504 response, if any
+ * @param attempt - Zero-based retry attempt
+ * @returns Delay in milliseconds, from Retry-After when present, otherwise exponential backoff with jitter
+ */
+function getRetryDelay(retryAfter: string | null | undefined, attempt: number): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const retryDate = Date.parse(retryAfter);
+    if (!isNaN(retryDate)) {
+      return Math.max(0, retryDate - Date.now());
+    }
+  }
+
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+/**
+ * fetch() through the global concurrency limiter, retrying throttled responses
+ * @param url - Absolute request URL
+ * @param requestOptions - Options passed to fetch
+ * @param observer - Notified of each attempt and retry
+ * @returns The first non-throttled response, or the last one once retries run out; rejects with an AbortError once requestOptions.signal fires
+ */
+async function fetchWithRetry(
+  url: string,
+  requestOptions: RequestInit,
+  observer?: GraphRequestObserver
+): Promise<Response> {
+  const signal = requestOptions.signal;
+  for (let attempt = 0; ; attempt++) {
+    await acquireRequestSlot();
+    if (signal?.aborted) {
+      releaseRequestSlot();
+      throw abortError();
+    }
+    observer?.onRequest?.();
+    let response: Response;
+    try {
+      response = await fetch(url, requestOptions);
+    } finally {
+      releaseRequestSlot();
+    }
+
+    if (!RETRYABLE_STATUS_CODES.includes(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+
+    const delay = getRetryDelay(response.headers.get("Retry-After"), attempt);
+    console.warn(`Graph API ${response.status} for ${url}, retrying in ${Math.round(delay)}ms`);
+    observer?.onRetry?.();
+    await new Promise<void>((resolve, reject) => {
+      // Drop the abort listener once the wait is over, so retries do not pile them up on the scan's signal
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
 }
 
 /**
@@ -16,14 +205,17 @@ interface GraphApiResponse<T> {
  * @param accessToken - The Microsoft Graph access token
  * @param method - HTTP method (default: "GET")
  * @param body - Request body for POST/PATCH requests
+ * @param eventualConsistency - Send the ConsistencyLevel header needed by advanced queries
+ * @param options - AbortSignal and progress observer for the request
  * @returns Promise with the API response or error
  */
 export async function callGraphApi<T>(
   endpoint: string,
   accessToken: string,
   method: string = "GET",
-  body?: any,
-  eventualConsistency?: boolean
+  body?: unknown,
+  eventualConsistency?: boolean,
+  options: GraphRequestOptions = {}
 ): Promise<GraphApiResponse<T>> {
   if (!accessToken) {
     return {
@@ -46,21 +238,32 @@ export async function callGraphApi<T>(
     const requestOptions: RequestInit = {
       method,
       headers: customHeaders,
+      signal: options.signal,
     };
 
     if (body && (method === "POST" || method === "PATCH" || method === "PUT")) {
       requestOptions.body = JSON.stringify(body);
     }
 
-    const response = await fetch(`https://graph.microsoft.com/beta${endpoint}`, requestOptions);
+    // A loaded replay fixture stands in for the tenant; recording copies what the tenant answered
+    const response = isReplayingFixture()
+      ? replayGraphRequest(method, endpoint, requestOptions.body ? body : undefined, options.observer)
+      : await fetchWithRetry(`${GRAPH_BASE_URL}${endpoint}`, requestOptions, options.observer);
+    if (isRecordingFixture()) {
+      response.clone().json()
+        .catch(() => null)
+        .then(data => recordGraphExchange(method, endpoint, requestOptions.body ? body : undefined, response.status, data));
+    }
 
     if (!response.ok) {
-      const errorData = await response.json();
+      // Gateway errors (503/504) may not carry a JSON body
+      const errorData = await response.json().catch(() => ({}));
       const errorMessage = errorData.error?.message || "Unknown Graph API error";
       return {
         success: false,
         error: errorMessage,
-        statusCode: response.status
+        statusCode: response.status,
+        throttled: RETRYABLE_STATUS_CODES.includes(response.status)
       };
     }
 
@@ -78,6 +281,9 @@ export async function callGraphApi<T>(
       data: data as T
     };
   } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return abortedResponse();
+    }
     console.error("Graph API error:", error);
     return {
       success: false,
@@ -87,17 +293,377 @@ export async function callGraphApi<T>(
   }
 }
 
+// One page of a collection or delta query, as Graph returns it
+interface GraphPage<T> {
+  value?: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+// All objects of a paged Graph collection, plus whether paging stopped early
+export interface GraphCollection<T> {
+  value: T[];
+  pageCount: number;
+  truncated: boolean;
+}
+
+export interface GraphCollectionOptions extends GraphRequestOptions {
+  maxPages?: number;
+  eventualConsistency?: boolean;
+}
+
+/**
+ * Reads a Graph collection endpoint, following @odata.nextLink until the
+ * collection is exhausted or the page cap is reached
+ * @param endpoint - The Graph API collection endpoint (e.g., "/users")
+ * @param accessToken - The Microsoft Graph access token
+ * @param options - Page cap, ConsistencyLevel header for advanced queries, AbortSignal and observer
+ * @returns Promise with every object read, or the error of the first failing page
+ */
+export async function callGraphApiCollection<T>(
+  endpoint: string,
+  accessToken: string,
+  options: GraphCollectionOptions = {}
+): Promise<GraphApiResponse<GraphCollection<T>>> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const value: T[] = [];
+  let pageCount = 0;
+  let nextEndpoint: string | undefined = endpoint;
+
+  while (nextEndpoint && pageCount < maxPages) {
+    const response = await callGraphApi<GraphPage<T>>(
+      nextEndpoint,
+      accessToken,
+      undefined,
+      undefined,
+      options.eventualConsistency,
+      options
+    );
+
+    if (!response.success) {
+      return asFailure(response);
+    }
+
+    pageCount++;
+    options.observer?.onPage?.(pageCount, maxPages);
+    value.push(...(response.data?.value || []));
+
+    // nextLink is an absolute URL; callGraphApi expects a path relative to the beta root
+    const nextLink = response.data?.["@odata.nextLink"];
+    nextEndpoint = nextLink ? nextLink.replace(GRAPH_BASE_URL, "") : undefined;
+  }
+
+  if (nextEndpoint) {
+    console.warn(`Graph collection ${endpoint} truncated after ${pageCount} pages`);
+  }
+
+  return {
+    success: true,
+    data: {
+      value,
+      pageCount,
+      truncated: !!nextEndpoint
+    }
+  };
+}
+
+// Objects changed since a delta link was issued, and the link to resume from next time
+export interface GraphDeltaPage<T> {
+  value: T[];
+  pageCount: number;
+  // @odata.deltaLink once the round completes, or the @odata.nextLink to continue from if the page cap was hit
+  resumeLink?: string;
+  truncated: boolean;
+}
+
+/**
+ * Runs a Graph delta query round, following @odata.nextLink until Graph hands
+ * back an @odata.deltaLink or the page cap is reached
+ * @param endpoint - The delta endpoint for a first sync (e.g., "/users/delta") or a stored delta/next link
+ * @param accessToken - The Microsoft Graph access token
+ * @param maxPages - Page cap for this round
+ * @param options - AbortSignal and observer notified of each request and page
+ * @returns Promise with the changed objects and the link to resume from; a 410 means the link expired
+ */
+export async function callGraphApiDelta<T>(
+  endpoint: string,
+  accessToken: string,
+  maxPages: number = DEFAULT_MAX_PAGES,
+  options: GraphRequestOptions = {}
+): Promise<GraphApiResponse<GraphDeltaPage<T>>> {
+  const value: T[] = [];
+  let pageCount = 0;
+  let nextEndpoint: string | undefined = endpoint.replace(GRAPH_BASE_URL, "");
+  let deltaLink: string | undefined;
+
+  while (nextEndpoint && pageCount < maxPages) {
+    const response = await callGraphApi<GraphPage<T>>(nextEndpoint, accessToken, undefined, undefined, undefined, options);
+
+    if (!response.success) {
+      return asFailure(response);
+    }
+
+    pageCount++;
+    options.observer?.onPage?.(pageCount, maxPages);
+    value.push(...(response.data?.value || []));
+
+    const nextLink = response.data?.["@odata.nextLink"];
+    deltaLink = response.data?.["@odata.deltaLink"];
+    nextEndpoint = nextLink ? nextLink.replace(GRAPH_BASE_URL, "") : undefined;
+  }
+
+  if (nextEndpoint) {
+    console.warn(`Graph delta query ${endpoint} stopped after ${pageCount} pages; resuming next sync`);
+  }
+
+  return {
+    success: true,
+    data: {
+      value,
+      pageCount,
+      resumeLink: nextEndpoint || deltaLink?.replace(GRAPH_BASE_URL, ""),
+      truncated: !!nextEndpoint
+    }
+  };
+}
+
+// Graph accepts at most 20 requests per JSON batch
+const BATCH_SIZE = 20;
+const BATCH_FLUSH_DELAY_MS = 10;
+
+interface QueuedBatchRequest {
+  id: string;
+  endpoint: string;
+  attempt: number;
+  options: GraphRequestOptions;
+  resolve: (response: GraphApiResponse<unknown>) => void;
+}
+
+// Graph's answer to a JSON batch: one entry per request, matched by id
+interface GraphBatchResponse {
+  responses?: {
+    id: string;
+    status: number;
+    headers?: Record<string, string>;
+    body?: {
+      error?: { message?: string };
+    };
+  }[];
+}
+
+// Pending batch requests and flush timers, keyed by access token
+const batchQueues = new Map<string, QueuedBatchRequest[]>();
+const batchTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let nextBatchRequestId = 0;
+
+/**
+ * Queues a GET request to be sent through Graph's /$batch endpoint together
+ * with other queued requests, and resolves with this request's own response
+ * @param endpoint - The Graph API endpoint to call (e.g., "/users/{id}/mailFolders/inbox/messageRules")
+ * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal, and observer notified each time this request goes out in a batch
+ * @returns Promise with the API response or error for this request
+ */
+export function callGraphApiBatched<T>(
+  endpoint: string,
+  accessToken: string,
+  options: GraphRequestOptions = {}
+): Promise<GraphApiResponse<T>> {
+  if (!accessToken) {
+    return Promise.resolve({
+      success: false,
+      error: "No access token provided",
+      statusCode: 401
+    });
+  }
+
+  if (options.signal?.aborted) {
+    return Promise.resolve(abortedResponse());
+  }
+
+  // Fixtures hold batched requests individually, so replay them one by one
+  if (isReplayingFixture()) {
+    return callGraphApi<T>(endpoint, accessToken, "GET", undefined, undefined, options);
+  }
+
+  return new Promise<GraphApiResponse<T>>(resolve => {
+    // An aborted request settles at once; sendBatch drops it if it is still queued
+    const onAbort = () => resolve(abortedResponse());
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    enqueueBatchRequest(accessToken, {
+      id: String(++nextBatchRequestId),
+      endpoint,
+      attempt: 0,
+      options,
+      resolve: response => {
+        options.signal?.removeEventListener("abort", onAbort);
+        // Each queued request is answered with the body Graph returned for its own endpoint
+        resolve(response as GraphApiResponse<T>);
+      }
+    });
+  });
+}
+
+/**
+ * Batched counterpart of callGraphApiCollection: every page goes out through
+ * /$batch, following @odata.nextLink until it runs out or the page cap is reached
+ * @param endpoint - The Graph API collection endpoint (e.g., "/groups/{id}/members")
+ * @param accessToken - The Microsoft Graph access token
+ * @param options - Page cap, AbortSignal and observer passed to each batched request
+ * @returns Promise with all collected items, the number of pages read and whether the cap cut it short
+ */
+export async function callGraphApiBatchedCollection<T>(
+  endpoint: string,
+  accessToken: string,
+  options: GraphCollectionOptions = {}
+): Promise<GraphApiResponse<GraphCollection<T>>> {
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const value: T[] = [];
+  let pageCount = 0;
+  let nextEndpoint: string | undefined = endpoint;
+
+  while (nextEndpoint && pageCount < maxPages) {
+    const response = await callGraphApiBatched<GraphPage<T>>(nextEndpoint, accessToken, options);
+
+    if (!response.success) {
+      return asFailure(response);
+    }
+
+    pageCount++;
+    // Checks page one list per item, so only the pages a next link leads to are reported
+    if (pageCount > 1) {
+      options.observer?.onPage?.(pageCount, maxPages);
+    }
+    value.push(...(response.data?.value || []));
+
+    const nextLink = response.data?.["@odata.nextLink"];
+    nextEndpoint = nextLink ? nextLink.replace(GRAPH_BASE_URL, "") : undefined;
+  }
+
+  if (nextEndpoint) {
+    console.warn(`Batched Graph collection ${endpoint} truncated after ${pageCount} pages`);
+  }
+
+  return {
+    success: true,
+    data: {
+      value,
+      pageCount,
+      truncated: !!nextEndpoint
+    }
+  };
+}
+
+// Add a request to the token's queue, flushing once a full batch is waiting
+function enqueueBatchRequest(accessToken: string, request: QueuedBatchRequest): void {
+  const queue = batchQueues.get(accessToken) || [];
+  queue.push(request);
+  batchQueues.set(accessToken, queue);
+
+  if (queue.length >= BATCH_SIZE) {
+    flushBatchQueue(accessToken);
+  } else if (!batchTimers.has(accessToken)) {
+    batchTimers.set(accessToken, setTimeout(() => flushBatchQueue(accessToken), BATCH_FLUSH_DELAY_MS));
+  }
+}
+
+// Send everything queued for a token in groups of BATCH_SIZE
+function flushBatchQueue(accessToken: string): void {
+  const timer = batchTimers.get(accessToken);
+  if (timer) {
+    clearTimeout(timer);
+    batchTimers.delete(accessToken);
+  }
+
+  const queue = batchQueues.get(accessToken) || [];
+  batchQueues.delete(accessToken);
+
+  for (let i = 0; i < queue.length; i += BATCH_SIZE) {
+    sendBatch(accessToken, queue.slice(i, i + BATCH_SIZE));
+  }
+}
+
+/**
+ * Posts one JSON batch and hands each item's response back to its caller.
+ * Throttled items are re-queued after their Retry-After delay.
+ * @param accessToken - The Microsoft Graph access token
+ * @param requests - At most BATCH_SIZE queued requests
+ */
+async function sendBatch(accessToken: string, queued: QueuedBatchRequest[]): Promise<void> {
+  const requests = queued.filter(request => !request.options.signal?.aborted);
+  if (requests.length === 0) {
+    return;
+  }
+  requests.forEach(request => request.options.observer?.onRequest?.());
+  const response = await callGraphApi<GraphBatchResponse>("/$batch", accessToken, "POST", {
+    requests: requests.map(request => ({
+      id: request.id,
+      method: "GET",
+      url: request.endpoint
+    }))
+  });
+
+  if (!response.success) {
+    requests.forEach(request => request.resolve(response));
+    return;
+  }
+
+  const pending = new Map(requests.map(request => [request.id, request]));
+
+  for (const item of response.data?.responses || []) {
+    const request = pending.get(item.id);
+    if (!request) {
+      continue;
+    }
+    pending.delete(item.id);
+
+    const throttled = RETRYABLE_STATUS_CODES.includes(item.status);
+    if (throttled && request.attempt < MAX_RETRIES) {
+      const retryAfterKey = Object.keys(item.headers || {}).find(key => key.toLowerCase() === "retry-after");
+      const delay = getRetryDelay(retryAfterKey ? item.headers[retryAfterKey] : null, request.attempt);
+      request.attempt++;
+      request.options.observer?.onRetry?.();
+      setTimeout(() => enqueueBatchRequest(accessToken, request), delay);
+      continue;
+    }
+
+    recordGraphExchange("GET", request.endpoint, undefined, item.status, item.body ?? null);
+    if (item.status >= 200 && item.status < 300) {
+      request.resolve({
+        success: true,
+        data: item.body ?? {}
+      });
+    } else {
+      request.resolve({
+        success: false,
+        error: item.body?.error?.message || "Unknown Graph API error",
+        statusCode: item.status,
+        throttled
+      });
+    }
+  }
+
+  // Graph should answer every item, but never leave a caller hanging
+  pending.forEach(request => request.resolve({
+    success: false,
+    error: "No response for request in Graph batch",
+    statusCode: 500
+  }));
+}
+
 /**
  * Fetch a list of users from Microsoft Graph API
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  * @returns Promise with user data or error
  */
-export async function fetchUsers(accessToken: string): Promise<GraphApiResponse<any>> {
+export async function fetchUsers(accessToken: string, options?: GraphRequestOptions): Promise<GraphApiResponse<GraphCollection<GraphUser>>> {
   try {
     // Expanded query to get more comprehensive user data
-    return await callGraphApi<any>(
-      "/users?$top=100&$select=id,displayName,userPrincipalName,accountEnabled,createdDateTime,mail,jobTitle,department,companyName,userType,assignedLicenses", 
-      accessToken
+    return await callGraphApiCollection<GraphUser>(
+      "/users?$top=999&$select=id,displayName,userPrincipalName,accountEnabled,createdDateTime,mail,jobTitle,department,companyName,userType,assignedLicenses",
+      accessToken,
+      options
     );
   } catch (error) {
     console.error("Error fetching users:", error);
@@ -112,11 +678,15 @@ export async function fetchUsers(accessToken: string): Promise<GraphApiResponse<
 /**
  * Fetch tenant information from Microsoft Graph API
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  * @returns Promise with tenant data or error
  */
-export async function fetchTenantInfo(accessToken: string): Promise<GraphApiResponse<any>> {
+export async function fetchTenantInfo(
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ value: GraphOrganization[] }>> {
   try {
-    return await callGraphApi<any>("/organization?$select=id,displayName,verifiedDomains,technicalNotificationMails,securityComplianceNotificationMails,initialDomainName", accessToken);
+    return await callGraphApi<{ value: GraphOrganization[] }>("/organization?$select=id,displayName,verifiedDomains,technicalNotificationMails,securityComplianceNotificationMails,initialDomainName", accessToken, undefined, undefined, undefined, options);
   } catch (error) {
     console.error("Error fetching tenant info:", error);
     return {
@@ -130,14 +700,16 @@ export async function fetchTenantInfo(accessToken: string): Promise<GraphApiResp
 /**
  * Check for inactive users (not logged in for over 90 days)
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  * @returns Promise with inactive users data or error
  */
-export async function checkInactiveUsers(accessToken: string): Promise<GraphApiResponse<any>> {
+export async function checkInactiveUsers(accessToken: string, options?: GraphRequestOptions): Promise<GraphApiResponse<GraphCollection<GraphUser>>> {
   try {
     // Get users with signInActivity
-    return await callGraphApi<any>(
-      "/users?$select=id,displayName,userPrincipalName,accountEnabled,signInActivity,userType,createdDateTime&$filter=accountEnabled eq true", 
-      accessToken
+    return await callGraphApiCollection<GraphUser>(
+      "/users?$select=id,displayName,userPrincipalName,accountEnabled,signInActivity,userType,createdDateTime&$filter=accountEnabled eq true",
+      accessToken,
+      options
     );
   } catch (error) {
     console.error("Error checking inactive users:", error);
@@ -152,24 +724,30 @@ export async function checkInactiveUsers(accessToken: string): Promise<GraphApiR
 /**
  * Check for users without MFA enabled
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  * @returns Promise with users without MFA data or error
  */
-export async function checkUsersWithoutMFA(accessToken: string): Promise<GraphApiResponse<any>> {
+export async function checkUsersWithoutMFA(
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ value: CredentialUserRegistrationDetails[]; accountStatus: GraphUser[] }>> {
   try {
     // Get authentication methods for users
-    const credentialResponse = await callGraphApi<any>(
-      `/reports/credentialUserRegistrationDetails`, 
-      accessToken
+    const credentialResponse = await callGraphApiCollection<CredentialUserRegistrationDetails>(
+      `/reports/credentialUserRegistrationDetails`,
+      accessToken,
+      options
     );
     
     // Also get user account status in the same call
-    const usersResponse = await callGraphApi<any>(
-      `/users?$select=id,userPrincipalName,displayName,accountEnabled,userType`, 
-      accessToken
+    const usersResponse = await callGraphApiCollection<GraphUser>(
+      `/users?$select=id,userPrincipalName,displayName,accountEnabled,userType`,
+      accessToken,
+      options
     );
     
     if (!credentialResponse.success) {
-      return credentialResponse;
+      return asFailure(credentialResponse);
     }
     
     if (!usersResponse.success) {
@@ -204,16 +782,19 @@ export async function checkUsersWithoutMFA(accessToken: string): Promise<GraphAp
  * Check for users with 'DisablePasswordExpiration' in passwordPolicies
  * (Means password never expires)
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkPasswordNeverExpires(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphUser>>> {
   try {
     // We filter on 'accountEnabled eq true' to ignore disabled accounts
     // Then select the relevant fields including 'passwordPolicies'
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,passwordPolicies,userType&$filter=accountEnabled eq true",
-      accessToken
+      accessToken,
+      options
     );
 
     return response;
@@ -233,15 +814,18 @@ export async function checkPasswordNeverExpires(
 /**
  * Check for risky users as identified by Azure AD Identity Protection
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkRiskyUsers(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<RiskyUser>>> {
   try {
     // The /beta endpoint for listing risky users
-    const response = await callGraphApi<any>(
-      "/identityProtection/riskyUsers?$top=50",
-      accessToken
+    const response = await callGraphApiCollection<RiskyUser>(
+      "/identityProtection/riskyUsers",
+      accessToken,
+      options
     );
     return response;
   } catch (error) {
@@ -258,15 +842,46 @@ export async function checkRiskyUsers(
 /**
  * Check for groups with no owners
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  * @returns Promise with groups without owners data or error
  */
-export async function checkGroupsWithNoOwners(accessToken: string): Promise<GraphApiResponse<any>> {
+export async function checkGroupsWithNoOwners(accessToken: string, options?: GraphRequestOptions): Promise<GraphApiResponse<GraphCollection<GraphGroup>>> {
   try {
     // Get all groups to check for owners
-    return await callGraphApi<any>(
-      `/groups?$select=id,displayName,description,visibility,membershipRule,owners&$expand=owners&$top=100`, 
-      accessToken
+    const groupsResponse = await callGraphApiCollection<GraphGroup>(
+      `/groups?$select=id,displayName,description,visibility,membershipRule,groupTypes,securityEnabled,mailEnabled,isAssignableToRole,owners&$expand=owners&$top=100`,
+      accessToken,
+      options
+    );
+    
+    if (!groupsResponse.success) {
+      return groupsResponse;
+    }
+    
+    // Directory objects only expand one relationship, so members are counted with a batched request per group
+    const membersResponses = await Promise.all(
+      groupsResponse.data.value.map(group => callGraphApiBatchedCollection<{ id: string }>(
+        `/groups/${group.id}/members?$select=id&$top=999`,
+        accessToken,
+        options
+      ))
     );
+    
+    return {
+      ...groupsResponse,
+      data: {
+        ...groupsResponse.data,
+        // A member count cut short by the page cap is only a lower bound
+        truncated: groupsResponse.data.truncated ||
+          membersResponses.some(membersResponse => membersResponse.success && membersResponse.data.truncated),
+        value: groupsResponse.data.value.map((group, index) => {
+          const membersResponse = membersResponses[index];
+          return membersResponse.success
+            ? { ...group, memberCount: membersResponse.data.value.length }
+            : group;
+        })
+      }
+    };
   } catch (error) {
     console.error("Error checking groups with no owners:", error);
     return {
@@ -280,21 +895,76 @@ export async function checkGroupsWithNoOwners(accessToken: string): Promise<Grap
 /**
  * Check for mailboxes with auto-forwarding rules to external domains
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with one entry per enabled inbox rule that forwards or redirects mail
  */
 export async function checkEmailForwardingRules(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<MailboxForwardingRule>>> {
   try {
-    // Using the /beta endpoint to get forwarding information
-    const response = await callGraphApi<any>(
+    // Licensed users with a mail address are the mailboxes that can hold inbox rules
+    const mailboxesResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,mail&$filter=assignedLicenses/$count ne 0 and mail ne null&$count=true",
       accessToken,
-      undefined, 
-      undefined,
-      true
+      { ...options, eventualConsistency: true }
     );
     
-    return response;
+    if (!mailboxesResponse.success) {
+      return asFailure(mailboxesResponse);
+    }
+    
+    const mailboxes = mailboxesResponse.data.value;
+    const rulesResponses = await Promise.all(
+      mailboxes.map(mailbox => callGraphApiBatchedCollection<MessageRule>(
+        `/users/${mailbox.id}/mailFolders/inbox/messageRules`,
+        accessToken,
+        options
+      ))
+    );
+    
+    // Without mailbox access for any user there is nothing to evaluate
+    const firstFailure = rulesResponses.find(response => !response.success);
+    if (mailboxes.length > 0 && rulesResponses.every(response => !response.success)) {
+      return asFailure(firstFailure);
+    }
+    
+    const forwardingRules: MailboxForwardingRule[] = [];
+    mailboxes.forEach((mailbox, index) => {
+      const rulesResponse = rulesResponses[index];
+      if (!rulesResponse.success) return;
+      
+      (rulesResponse.data.value || []).forEach(rule => {
+        if (rule.isEnabled === false || !rule.actions) return;
+        
+        const recipients = [
+          ...(rule.actions.forwardTo || []),
+          ...(rule.actions.forwardAsAttachmentTo || []),
+          ...(rule.actions.redirectTo || [])
+        ];
+        const forwardTo = recipients
+          .map(recipient => recipient.emailAddress?.address)
+          .filter(Boolean);
+        
+        if (forwardTo.length > 0) {
+          forwardingRules.push({
+            mailbox: mailbox.mail || mailbox.userPrincipalName || mailbox.id,
+            ruleName: rule.displayName,
+            forwardTo
+          });
+        }
+      });
+    });
+    
+    return {
+      success: true,
+      data: {
+        value: forwardingRules,
+        pageCount: mailboxesResponse.data.pageCount,
+        truncated: mailboxesResponse.data.truncated ||
+          rulesResponses.some(rulesResponse => rulesResponse.success && rulesResponse.data.truncated)
+      }
+    };
   } catch (error) {
     console.error("Error checking email forwarding rules:", error);
     return {
@@ -310,15 +980,18 @@ export async function checkEmailForwardingRules(
 /**
  * Check for users with privileged roles (e.g., Global Admin)
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkPrivilegedRoles(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<DirectoryRole>>> {
   try {
     // Get directory role assignments
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<DirectoryRole>(
       "/directoryRoles?$expand=members",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -337,14 +1010,17 @@ export async function checkPrivilegedRoles(
 /**
  * Check for guest users in the tenant
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkGuestUsers(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphUser>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphUser>(
       "/users?$filter=userType eq 'Guest'&$select=id,displayName,userPrincipalName,createdDateTime,externalUserState,mail",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -360,24 +1036,66 @@ export async function checkGuestUsers(
   }
 }
 
+// Exchange recipient types for the mailbox purposes that nobody should sign in to directly
+const NON_USER_MAILBOX_TYPES: Record<string, string> = {
+  shared: "SharedMailbox",
+  room: "RoomMailbox",
+  equipment: "EquipmentMailbox",
+};
+
 /**
- * Check for shared mailboxes with direct login enabled
+ * Check for shared, room and equipment mailboxes and whether their accounts can sign in
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with the mailbox accounts, recipientTypeDetails set from their mailbox purpose
  */
 export async function checkSharedMailboxes(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphUser>>> {
   try {
-    // First get users that might be shared mailboxes
-    const response = await callGraphApi<any>(
-      "/users?$select=id,displayName,userPrincipalName,mail,accountEnabled,recipientType,recipientTypeDetails&$filter=assignedLicenses/$count eq 0&$count=true",
+    // Shared, room and equipment mailboxes need no license, so only unlicensed mail users can be one
+    const response = await callGraphApiCollection<GraphUser>(
+      "/users?$select=id,displayName,userPrincipalName,mail,accountEnabled&$filter=assignedLicenses/$count eq 0 and mail ne null&$count=true",
       accessToken,
-      undefined,
-      undefined,
-      true
+      { ...options, eventualConsistency: true }
     );
     
-    return response;
+    if (!response.success) {
+      return response;
+    }
+    
+    const candidates = response.data.value;
+    const purposeResponses = await Promise.all(
+      candidates.map(user => callGraphApiBatched<{ value?: string }>(
+        `/users/${user.id}/mailboxSettings/userPurpose`,
+        accessToken,
+        options
+      ))
+    );
+    
+    // Accounts without a mailbox return 404; any other failure for every account means no access
+    const firstFailure = purposeResponses.find(purpose => !purpose.success && purpose.statusCode !== 404);
+    if (candidates.length > 0 && purposeResponses.every(purpose => !purpose.success && purpose.statusCode !== 404)) {
+      return asFailure(firstFailure);
+    }
+    
+    const mailboxes = candidates.flatMap((user, index) => {
+      const purposeResponse = purposeResponses[index];
+      const recipientTypeDetails = purposeResponse.success
+        ? NON_USER_MAILBOX_TYPES[String(purposeResponse.data?.value).toLowerCase()]
+        : undefined;
+      return recipientTypeDetails ? [{ ...user, recipientTypeDetails }] : [];
+    });
+    
+    return {
+      success: true,
+      data: {
+        value: mailboxes,
+        pageCount: response.data.pageCount,
+        truncated: response.data.truncated
+      }
+    };
   } catch (error) {
     console.error("Error checking shared mailboxes:", error);
     return {
@@ -393,14 +1111,17 @@ export async function checkSharedMailboxes(
 /**
  * Check for non-compliant devices
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDeviceCompliance(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<ManagedDevice>>> {
   try {
-    const response = await callGraphApi<any>(
-      "/deviceManagement/managedDevices?$select=id,deviceName,operatingSystem,osVersion,complianceState,lastSyncDateTime,enrolledDateTime&$top=50",
-      accessToken
+    const response = await callGraphApiCollection<ManagedDevice>(
+      "/deviceManagement/managedDevices?$select=id,deviceName,operatingSystem,osVersion,complianceState,lastSyncDateTime,enrolledDateTime,jailBroken,managementState,isEncrypted,model,manufacturer,userPrincipalName,userDisplayName",
+      accessToken,
+      options
     );
     
     return response;
@@ -419,14 +1140,17 @@ export async function checkDeviceCompliance(
 /**
  * Check for conditional access policies
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkConditionalAccessPolicies(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<ConditionalAccessPolicy>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<ConditionalAccessPolicy>(
       "/identity/conditionalAccess/policies",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -445,42 +1169,44 @@ export async function checkConditionalAccessPolicies(
 /**
  * Check for unused licenses
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkUnusedLicenses(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<UnusedLicenses>> {
   try {
     // First get all subscribed SKUs (licenses)
-    const skusResponse = await callGraphApi<any>(
+    const skusResponse = await callGraphApiCollection<SubscribedSku>(
       "/subscribedSkus",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!skusResponse.success) {
-      return skusResponse;
+      return asFailure(skusResponse);
     }
     
     // Then get users with licenses
-    const usersResponse = await callGraphApi<any>(
+    const usersResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,assignedLicenses,signInActivity&$filter=assignedLicenses/$count ne 0&$count=true",
       accessToken,
-      undefined,
-      undefined,
-      true
+      { ...options, eventualConsistency: true }
     );
     
     if (!usersResponse.success) {
-      return usersResponse;
+      return asFailure(usersResponse);
     }
     
     // Process the data to find unused licenses
-    const skus = skusResponse.data.value;
+    const validated = validateGraphData(subscribedSkuSchema, skusResponse.data.value, "subscribedSkus");
+    const skus = validated.data;
     const users = usersResponse.data.value;
     
     // Map service plan IDs to readable names
     const serviceNameMap: { [key: string]: string } = {};
-    skus.forEach((sku: any) => {
-      sku.servicePlans.forEach((plan: any) => {
+    skus.forEach(sku => {
+      sku.servicePlans.forEach(plan => {
         serviceNameMap[plan.servicePlanId] = plan.servicePlanName;
       });
     });
@@ -492,7 +1218,7 @@ export async function checkUnusedLicenses(
     const unusedLicenses: string[] = [];
     let unusedCount = 0;
     
-    users.forEach((user: any) => {
+    users.forEach(user => {
       if (user.signInActivity && user.signInActivity.lastSignInDateTime) {
         const lastSignIn = new Date(user.signInActivity.lastSignInDateTime);
         if (lastSignIn < thirtyDaysAgo) {
@@ -509,7 +1235,8 @@ export async function checkUnusedLicenses(
         unusedCount,
         unusedLicenses,
         serviceNameMap
-      }
+      },
+      diagnostics: validated.diagnostic ? [validated.diagnostic] : undefined
     };
     
   } catch (error) {
@@ -527,21 +1254,28 @@ export async function checkUnusedLicenses(
 /**
  * NEW CHECK #1: Check for users with strong password requirements disabled
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkPasswordStrength(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ globalPolicy: AuthenticationMethodsPolicy | null; userPolicies: GraphUser[] }>> {
   try {
     // Get password policy settings
-    const response = await callGraphApi<any>(
+    const response = await callGraphApi<AuthenticationMethodsPolicy>(
       "/policies/authenticationMethodsPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     // Also get per-user policy settings if available
-    const userPoliciesResponse = await callGraphApi<any>(
+    const userPoliciesResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,passwordPolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -566,34 +1300,38 @@ export async function checkPasswordStrength(
 /**
  * NEW CHECK #2: Check for users with admin roles who haven't signed in recently
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkInactiveAdmins(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<InactiveAdmin[]>> {
   try {
     // First get all admin roles
-    const rolesResponse = await callGraphApi<any>(
+    const rolesResponse = await callGraphApiCollection<DirectoryRole>(
       "/directoryRoles?$expand=members",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!rolesResponse.success) {
-      return rolesResponse;
+      return asFailure(rolesResponse);
     }
     
     // Then get sign-in activity for all users
-    const signInResponse = await callGraphApi<any>(
+    const signInResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,signInActivity",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!signInResponse.success) {
-      return signInResponse;
+      return asFailure(signInResponse);
     }
     
     // Map of user IDs to their sign-in activity
-    const userSignInMap: { [key: string]: any } = {};
-    signInResponse.data.value.forEach((user: any) => {
+    const userSignInMap: { [key: string]: Pick<GraphUser, "displayName" | "userPrincipalName" | "signInActivity"> } = {};
+    signInResponse.data.value.forEach(user => {
       userSignInMap[user.id] = {
         displayName: user.displayName,
         userPrincipalName: user.userPrincipalName,
@@ -605,11 +1343,11 @@ export async function checkInactiveAdmins(
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
     
-    const inactiveAdmins: any[] = [];
+    const inactiveAdmins: InactiveAdmin[] = [];
     
-    rolesResponse.data.value.forEach((role: any) => {
+    rolesResponse.data.value.forEach(role => {
       if (role.members && role.members.length > 0) {
-        role.members.forEach((member: any) => {
+        role.members.forEach(member => {
           const userInfo = userSignInMap[member.id];
           if (userInfo && userInfo.signInActivity && userInfo.signInActivity.lastSignInDateTime) {
             const lastSignIn = new Date(userInfo.signInActivity.lastSignInDateTime);
@@ -646,23 +1384,26 @@ export async function checkInactiveAdmins(
 /**
  * NEW CHECK #3: Check for application permissions and consent
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkApplicationPermissions(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ thirdPartyApps: ServicePrincipal[]; consentGrants: GraphObject[] }>> {
   try {
     // Get all service principals with high permissions
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<ServicePrincipal>(
       "/servicePrincipals?$select=id,displayName,appId,appRoles,oauth2PermissionScopes,appOwnerOrganizationId",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!response.success) {
-      return response;
+      return asFailure(response);
     }
     
     // Filter for third-party apps with sensitive permissions
-    const thirdPartyApps = response.data.value.filter((sp: any) => {
+    const thirdPartyApps = response.data.value.filter(sp => {
       // Check if app is not owned by Microsoft or the tenant itself
       const isMicrosoftApp = sp.appOwnerOrganizationId === "f8cdef31-a31e-4b4a-93e4-5f571e91255a"; // Microsoft's tenant ID
       const isFirstPartyApp = !sp.appOwnerOrganizationId; // First-party apps often don't have this value set
@@ -671,9 +1412,10 @@ export async function checkApplicationPermissions(
     });
     
     // Now get application consent grants
-    const consentResponse = await callGraphApi<any>(
+    const consentResponse = await callGraphApiCollection<GraphObject>(
       "/oauth2PermissionGrants",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -695,52 +1437,65 @@ export async function checkApplicationPermissions(
   }
 }
 
+// Calendar roles that let someone other than the owner read or act on mailbox items
+const DELEGATED_CALENDAR_ROLES = ["read", "write", "delegateWithoutPrivateEventAccess", "delegateWithPrivateEventAccess"];
+
 /**
  * NEW CHECK #4: Check for exchange mailbox permissions (delegation)
+ * Graph exposes mailbox delegation through each mailbox's calendar permissions;
+ * full-access and send-as grants are only visible in Exchange PowerShell
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkMailboxPermissions(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<MailboxDelegation[]>> {
   try {
     // Get all users with mailboxes
-    const usersResponse = await callGraphApi<any>(
+    const usersResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,mail&$filter=mail ne null&$count=true",
       accessToken,
-      undefined,
-      undefined,
-      true
+      { ...options, eventualConsistency: true }
     );
     
     if (!usersResponse.success) {
-      return usersResponse;
+      return asFailure(usersResponse);
     }
     
-    // For each user with a mailbox, check for delegated permissions
-    // This would be resource-intensive for many users, so we'll limit it
-    const users = usersResponse.data.value.slice(0, 10); // Limit to first 10 users
+    const users = usersResponse.data.value;
+    const delegatedPermissions: MailboxDelegation[] = [];
     
-    const delegatedPermissions: any[] = [];
+    const permissionResponses = await Promise.all(
+      users.map(user => callGraphApiBatchedCollection<CalendarPermission>(
+        `/users/${user.id}/calendar/calendarPermissions`,
+        accessToken,
+        options
+      ))
+    );
     
-    for (const user of users) {
-      const permissionResponse = await callGraphApi<any>(
-        `/users/${user.id}/mailboxSettings/userPurpose`,
-        accessToken
-      );
+    // Without calendar access for any mailbox there is nothing to report
+    const firstFailure = permissionResponses.find(response => !response.success);
+    if (users.length > 0 && permissionResponses.every(response => !response.success)) {
+      return asFailure(firstFailure);
+    }
+    
+    users.forEach((user, index) => {
+      const permissionResponse = permissionResponses[index];
+      if (!permissionResponse.success) return;
       
-      if (permissionResponse.success) {
-        // In a real implementation, we'd check for delegated permissions
-        // For now, we'll just simulate some results
-        if (Math.random() > 0.7) { // 30% chance of finding a delegation
+      // The owner and the default "My Organization" entries cannot be removed and are not delegations
+      permissionResponse.data.value
+        .filter(permission => permission.isRemovable && DELEGATED_CALENDAR_ROLES.includes(permission.role))
+        .forEach(permission => {
           delegatedPermissions.push({
             mailboxOwner: user.displayName,
             mailboxId: user.id,
-            delegateEmail: `delegate${Math.floor(Math.random() * 100)}@example.com`,
-            permissions: ["ReadItems", "CreateItems"]
+            delegateEmail: permission.emailAddress?.address || permission.emailAddress?.name,
+            permissions: [permission.role]
           });
-        }
-      }
-    }
+        });
+    });
     
     return {
       success: true,
@@ -758,50 +1513,154 @@ export async function checkMailboxPermissions(
   }
 }
 
+// Bounds on the sharing link scan so large tenants finish within the check timeout
+const MAX_SHARING_LINK_SITES = 50;
+// Each site's document library is read in pages of this many items, up to MAX_DRIVE_ITEM_PAGES
+const DRIVE_ITEM_PAGE_SIZE = 200;
+const MAX_DRIVE_ITEM_PAGES = 5;
+// Shared items per site whose permissions are read
+const MAX_SHARED_ITEMS_PER_SITE = 100;
+
+// Folder path of a drive item, e.g. "/Reports/Q3.xlsx" from parentReference.path "/drive/root:/Reports"
+const getDriveItemPath = (item: DriveItem) =>
+  `${(item.parentReference?.path || "").replace(/^.*?root:/, "")}/${item.name}`;
+
+// Who a permission reaches outside the tenant: guest accounts, invitations and
+// addresses outside the verified domains; null when it stays inside the organization
+const describeSharingPermission = (
+  permission: DrivePermission,
+  tenantDomains: string[]
+): Pick<SharingLink, "audience" | "linkType" | "roles" | "expirationDateTime" | "grantees"> | null => {
+  const identities = [
+    permission.grantedToV2,
+    ...(permission.grantedToIdentitiesV2 || []),
+  ].flatMap(identity => [identity?.user, identity?.siteUser].filter(Boolean));
+  const isExternal = (identity: typeof identities[number]) => {
+    if ((identity.loginName || "").toLowerCase().includes("#ext#")) return true;
+    const domain = (identity.email || "").split("@")[1]?.toLowerCase();
+    return !!domain && tenantDomains.length > 0 && !tenantDomains.includes(domain);
+  };
+  const externalGrantees = [
+    ...identities.filter(isExternal).map(identity => identity.email || identity.loginName || identity.displayName),
+    ...(permission.invitation?.email ? [permission.invitation.email] : []),
+  ];
+  const isAnonymous = permission.link?.scope === "anonymous";
+  if (!isAnonymous && externalGrantees.length === 0) return null;
+  return {
+    audience: isAnonymous ? "anonymous" : "external",
+    linkType: permission.link?.type,
+    roles: permission.roles || [],
+    expirationDateTime: permission.expirationDateTime,
+    grantees: Array.from(new Set(externalGrantees)),
+  };
+};
+
 /**
- * NEW CHECK #5: Check for SharePoint sharing links and permissions
+ * Check document libraries for Anyone links and links or grants to external users
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with every anonymous or external permission found, and whether the scan was cut short
  */
 export async function checkSharePointSharing(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<SharingLinkScan>> {
   try {
-    // Get SharePoint sites
-    const sitesResponse = await callGraphApi<any>(
-      "/sites?$select=id,displayName,webUrl,siteCollection",
-      accessToken
+    const sitesResponse = await callGraphApiCollection<SharePointSite>(
+      "/sites?$select=id,displayName,webUrl",
+      accessToken,
+      options
     );
     
     if (!sitesResponse.success) {
-      return sitesResponse;
+      return asFailure(sitesResponse);
     }
     
-    // For each site, check for sharing links
-    // Again, this would be resource-intensive, so we'll simulate results
-    const externalSharing: any[] = [];
-    
-    sitesResponse.data.value.forEach((site: any) => {
-      // Simulate finding some external sharing links
-      if (Math.random() > 0.6) { // 40% chance per site
-        externalSharing.push({
-          siteUrl: site.webUrl,
-          siteName: site.displayName,
-          shareType: Math.random() > 0.5 ? "AnonymousEdit" : "ExternalEdit",
-          sharedItems: [
-            {
-              itemType: "Document",
-              name: `Document-${Math.floor(Math.random() * 1000)}.docx`
-            }
-          ]
-        });
+    // Without the tenant's domains only guest accounts can be told apart as external
+    const organizationResponse = await callGraphApi<{ value: GraphOrganization[] }>(
+      "/organization?$select=verifiedDomains",
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
+    );
+    const tenantDomains = organizationResponse.success
+      ? (organizationResponse.data.value?.[0]?.verifiedDomains || []).map(domain => domain.name.toLowerCase())
+      : [];
+    
+    const sites = sitesResponse.data.value.slice(0, MAX_SHARING_LINK_SITES);
+    let truncated = sitesResponse.data.truncated || sitesResponse.data.value.length > sites.length;
+    let itemsScanned = 0;
+    const skippedSites: string[] = [];
+    const links: SharingLink[] = [];
+    
+    // One site at a time, so a large library cannot flood the request queue
+    for (const site of sites) {
+      // Delta lists the whole library in one flat collection and marks shared items
+      const itemsResponse = await callGraphApiCollection<DriveItem>(
+        `/sites/${site.id}/drive/root/delta?$select=id,name,root,file,folder,shared,deleted,parentReference&$top=${DRIVE_ITEM_PAGE_SIZE}`,
+        accessToken,
+        { ...options, maxPages: MAX_DRIVE_ITEM_PAGES }
+      );
+      
+      if (!itemsResponse.success) {
+        if (itemsResponse.aborted) {
+          return asFailure(itemsResponse);
+        }
+        // Sites without a document library, or that the account cannot read, leave the scan partial
+        skippedSites.push(site.webUrl || site.displayName || site.id);
+        continue;
       }
-    });
+      
+      itemsScanned += itemsResponse.data.value.length;
+      truncated = truncated || itemsResponse.data.truncated;
+      
+      const sharedItems = itemsResponse.data.value.filter(item => item.shared && !item.root && !item.deleted);
+      const checkedItems = sharedItems.slice(0, MAX_SHARED_ITEMS_PER_SITE);
+      truncated = truncated || sharedItems.length > checkedItems.length;
+      
+      const permissionResponses = await Promise.all(
+        checkedItems.map(item => callGraphApiBatchedCollection<DrivePermission>(
+          `/drives/${item.parentReference.driveId}/items/${item.id}/permissions`,
+          accessToken,
+          options
+        ))
+      );
+      
+      checkedItems.forEach((item, index) => {
+        const permissionResponse = permissionResponses[index];
+        if (!permissionResponse.success) {
+          truncated = true;
+          return;
+        }
+        
+        permissionResponse.data.value
+          // Inherited permissions are reported once, on the folder that was shared
+          .filter(permission => !permission.inheritedFrom)
+          .forEach(permission => {
+            const sharing = describeSharingPermission(permission, tenantDomains);
+            if (sharing) {
+              links.push({
+                siteName: site.displayName || site.webUrl || site.id,
+                siteUrl: site.webUrl,
+                itemPath: getDriveItemPath(item),
+                itemType: item.folder ? "folder" : "file",
+                ...sharing
+              });
+            }
+          });
+      });
+    }
     
     return {
       success: true,
       data: {
-        sites: sitesResponse.data.value,
-        externalSharing
+        sitesScanned: sites.length - skippedSites.length,
+        itemsScanned,
+        truncated: truncated || skippedSites.length > 0,
+        skippedSites,
+        links
       }
     };
   } catch (error) {
@@ -819,14 +1678,20 @@ export async function checkSharePointSharing(
 /**
  * Check if Azure AD Security Defaults are enabled
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkSecurityDefaultsStatus(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<SecurityDefaultsPolicy>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApi<SecurityDefaultsPolicy>(
       "/policies/identitySecurityDefaultsEnforcementPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     return response;
@@ -845,28 +1710,40 @@ export async function checkSecurityDefaultsStatus(
 /**
  * Check authentication strength policies for different workloads
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkAuthenticationStrengthPolicies(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<AuthenticationStrengthStatus>> {
   try {
     // Get auth strength policies
-    const strengthResponse = await callGraphApi<any>(
+    const strengthResponse = await callGraphApiCollection<AuthenticationStrengthPolicy>(
       "/identity/authenticationStrengthPolicies",
-      accessToken
+      accessToken,
+      options
     );
     
-    // Get CA policies that use them
-    const caWithStrengthResponse = await callGraphApi<any>(
-      "/identity/conditionalAccess/policies?$select=id,displayName,state,grantControls",
-      accessToken
+    if (!strengthResponse.success) {
+      return asFailure(strengthResponse);
+    }
+    
+    // Get CA policies that use them, with the conditions that say whom they cover
+    const caWithStrengthResponse = await callGraphApiCollection<ConditionalAccessPolicy>(
+      "/identity/conditionalAccess/policies?$select=id,displayName,state,conditions,grantControls",
+      accessToken,
+      options
     );
     
+    if (!caWithStrengthResponse.success) {
+      return asFailure(caWithStrengthResponse);
+    }
+    
     return {
       success: true,
       data: {
-        strengthPolicies: strengthResponse.success ? strengthResponse.data.value : [],
-        conditionalAccessPolicies: caWithStrengthResponse.success ? caWithStrengthResponse.data.value : []
+        strengthPolicies: strengthResponse.data.value,
+        conditionalAccessPolicies: caWithStrengthResponse.data.value
       }
     };
   } catch (error) {
@@ -884,14 +1761,17 @@ export async function checkAuthenticationStrengthPolicies(
 /**
  * Check for named locations configuration in Azure AD
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkNamedLocations(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<NamedLocation>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<NamedLocation>(
       "/identity/conditionalAccess/namedLocations",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -907,31 +1787,86 @@ export async function checkNamedLocations(
   }
 }
 
+// clientAppUsed values the sign-in logs record for legacy authentication protocols
+const LEGACY_CLIENT_APPS = [
+  "Authenticated SMTP",
+  "AutoDiscover",
+  "Exchange ActiveSync",
+  "Exchange Online PowerShell",
+  "Exchange Web Services",
+  "IMAP4",
+  "MAPI Over HTTP",
+  "Offline Address Book",
+  "Other clients",
+  "Outlook Anywhere (RPC over HTTP)",
+  "POP3",
+  "Reporting Web Services",
+  "Universal Outlook",
+];
+
+// How far back to look for legacy sign-ins; the logs keep 30 days with Entra ID P1
+export const LEGACY_SIGN_IN_LOOKBACK_DAYS = 30;
+
 /**
- * Check if legacy authentication protocols are blocked
+ * Check whether legacy authentication is blocked and who still uses it
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with the CA policies, the authentication methods policy and recent legacy sign-ins,
+ * which are null when the sign-in logs cannot be read
  */
 export async function checkLegacyAuthenticationStatus(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<LegacyAuthenticationStatus>> {
   try {
     // First check CA policies that might block legacy auth
-    const caResponse = await callGraphApi<any>(
+    const caResponse = await callGraphApiCollection<ConditionalAccessPolicy>(
       "/identity/conditionalAccess/policies?$select=id,displayName,state,conditions,grantControls",
-      accessToken
+      accessToken,
+      options
     );
     
+    // Without the policies there is no way to tell whether legacy auth is blocked
+    if (!caResponse.success) {
+      return asFailure(caResponse);
+    }
+    
     // Then check authentication methods policy
-    const authMethodsResponse = await callGraphApi<any>(
+    const authMethodsResponse = await callGraphApi<AuthenticationMethodsPolicy>(
       "/policies/authenticationMethodsPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
+    );
+    
+    // Recent sign-ins over legacy protocols; reading them needs AuditLog.Read.All and Entra ID P1
+    const since = new Date();
+    since.setDate(since.getDate() - LEGACY_SIGN_IN_LOOKBACK_DAYS);
+    const clientAppFilter = LEGACY_CLIENT_APPS.map(app => `clientAppUsed eq '${app}'`).join(" or ");
+    const signInsResponse = await callGraphApiCollection<SignIn>(
+      `/auditLogs/signIns?$filter=createdDateTime ge ${since.toISOString()} and (${clientAppFilter})&$select=userId,userPrincipalName,clientAppUsed,createdDateTime,status&$top=999`,
+      accessToken,
+      options
     );
     
+    const legacySignIns: LegacySignIn[] | null = signInsResponse.success
+      ? signInsResponse.data.value.map(signIn => ({
+          userId: signIn.userId,
+          userPrincipalName: signIn.userPrincipalName,
+          clientAppUsed: signIn.clientAppUsed,
+          createdDateTime: signIn.createdDateTime,
+          succeeded: signIn.status?.errorCode === 0
+        }))
+      : null;
+    
     return {
       success: true,
       data: {
-        conditionalAccessPolicies: caResponse.success ? caResponse.data.value : [],
-        authenticationMethodsPolicy: authMethodsResponse.success ? authMethodsResponse.data : null
+        conditionalAccessPolicies: caResponse.data.value,
+        authenticationMethodsPolicy: authMethodsResponse.success ? authMethodsResponse.data : null,
+        legacySignIns
       }
     };
   } catch (error) {
@@ -949,14 +1884,20 @@ export async function checkLegacyAuthenticationStatus(
 /**
  * Check self-service password reset configuration
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkSelfServicePasswordReset(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<AuthenticationMethodsPolicy>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApi<AuthenticationMethodsPolicy>(
       "/policies/authenticationMethodsPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     return response;
@@ -975,17 +1916,64 @@ export async function checkSelfServicePasswordReset(
 /**
  * Check for Administrative Units and delegated role scopes
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with each unit's member count and scoped role members, their roles resolved to names
  */
 export async function checkAdministrativeUnits(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<AdministrativeUnit>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<AdministrativeUnit>(
       "/administrativeUnits?$expand=scopedRoleMembers",
-      accessToken
+      accessToken,
+      options
     );
     
-    return response;
+    if (!response.success) {
+      return response;
+    }
+    
+    // Scoped role members name the activated role's object id, which differs per tenant
+    const rolesResponse = await callGraphApiCollection<DirectoryRole>(
+      "/directoryRoles?$select=id,displayName,roleTemplateId",
+      accessToken,
+      options
+    );
+    const rolesById = new Map(
+      (rolesResponse.success ? rolesResponse.data.value : []).map(role => [role.id, role])
+    );
+    
+    const membersResponses = await Promise.all(
+      response.data.value.map(unit => callGraphApiBatchedCollection<{ id: string }>(
+        `/administrativeUnits/${unit.id}/members?$select=id&$top=999`,
+        accessToken,
+        options
+      ))
+    );
+    
+    return {
+      ...response,
+      data: {
+        ...response.data,
+        // A member count cut short by the page cap is only a lower bound
+        truncated: response.data.truncated ||
+          membersResponses.some(membersResponse => membersResponse.success && membersResponse.data.truncated),
+        value: response.data.value.map((unit, index) => {
+          const membersResponse = membersResponses[index];
+          return {
+            ...unit,
+            ...(membersResponse.success ? { memberCount: membersResponse.data.value.length } : {}),
+            scopedRoleMembers: (unit.scopedRoleMembers || []).map(member => {
+              const role = rolesById.get(member.roleId);
+              return role
+                ? { ...member, roleTemplateId: role.roleTemplateId, roleName: role.displayName || undefined }
+                : member;
+            })
+          };
+        })
+      }
+    };
   } catch (error) {
     console.error("Error checking administrative units:", error);
     return {
@@ -1001,28 +1989,47 @@ export async function checkAdministrativeUnits(
 /**
  * Check for Privileged Identity Management (PIM) configuration
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
+ * @returns Promise with each directory role's PIM policy and its eligible and active assignments
  */
 export async function checkPrivilegedIdentityManagement(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<PimConfiguration>> {
   try {
-    // Check for role settings
-    const roleSettingsResponse = await callGraphApi<any>(
-      "/roleManagement/directory/roleSettings",
-      accessToken
+    // Check for role settings: the activation rules PIM applies to each directory role
+    const rolePoliciesResponse = await callGraphApiCollection<RoleManagementPolicyAssignment>(
+      "/policies/roleManagementPolicyAssignments?$filter=scopeId eq '/' and scopeType eq 'DirectoryRole'&$expand=policy($expand=rules)",
+      accessToken,
+      options
     );
     
     // Check for PIM-eligible assignments
-    const roleAssignmentsResponse = await callGraphApi<any>(
-      "/roleManagement/directory/roleEligibilitySchedules",
-      accessToken
+    const eligibleResponse = await callGraphApiCollection<RoleSchedule>(
+      "/roleManagement/directory/roleEligibilitySchedules?$expand=principal",
+      accessToken,
+      options
     );
     
+    // Active assignments, both standing and activated from an eligibility
+    const activeResponse = await callGraphApiCollection<RoleSchedule>(
+      "/roleManagement/directory/roleAssignmentSchedules?$expand=principal",
+      accessToken,
+      options
+    );
+    
+    // Without Entra ID P2 these all fail, and half the picture would prove nothing
+    const failure = [rolePoliciesResponse, eligibleResponse, activeResponse].find(response => !response.success);
+    if (failure) {
+      return asFailure(failure);
+    }
+    
     return {
       success: true,
       data: {
-        roleSettings: roleSettingsResponse.success ? roleSettingsResponse.data.value : [],
-        eligibleAssignments: roleAssignmentsResponse.success ? roleAssignmentsResponse.data.value : []
+        rolePolicies: rolePoliciesResponse.data.value,
+        eligibleAssignments: eligibleResponse.data.value,
+        activeAssignments: activeResponse.data.value
       }
     };
   } catch (error) {
@@ -1040,28 +2047,46 @@ export async function checkPrivilegedIdentityManagement(
 /**
  * Check SharePoint and OneDrive external sharing settings
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkSharePointExternalSharing(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<SharePointSharing>> {
   try {
     // Get organization default SharePoint settings
-    const orgSharePointResponse = await callGraphApi<any>(
+    const orgSharePointResponse = await callGraphApi<SharePointSettings>(
       "/admin/sharepoint/settings",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
+    // Site levels mean nothing without the tenant level that caps them
+    if (!orgSharePointResponse.success) {
+      return asFailure(orgSharePointResponse);
+    }
+    
     // Get SharePoint sites
-    const sitesResponse = await callGraphApi<any>(
-      "/sites?$select=id,displayName,webUrl,sharingCapability",
-      accessToken
+    const sitesResponse = await callGraphApiCollection<SharePointSite>(
+      "/sites?$select=id,displayName,webUrl",
+      accessToken,
+      options
     );
     
+    // An empty site list would read as a clean pass, so a failed listing fails the check
+    if (!sitesResponse.success) {
+      return asFailure(sitesResponse);
+    }
+    
     return {
       success: true,
       data: {
-        organizationSettings: orgSharePointResponse.success ? orgSharePointResponse.data : null,
-        sites: sitesResponse.success ? sitesResponse.data.value : []
+        organizationSettings: orgSharePointResponse.data,
+        sites: sitesResponse.data.value,
+        truncated: sitesResponse.data.truncated
       }
     };
   } catch (error) {
@@ -1079,18 +2104,21 @@ export async function checkSharePointExternalSharing(
 /**
  * Check for Data Loss Prevention policies
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDataLossPrevention(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
     // const response = await callGraphApi<any>(
     //   "/security/dataLossPreventionPolicies",
     //   accessToken
     // );
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/informationProtection/dataLossPreventionPolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1109,14 +2137,17 @@ export async function checkDataLossPrevention(
 /**
  * Check for retention policies configured in the tenant
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkRetentionPolicies(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/security/informationProtection/policy/labels",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1135,21 +2166,25 @@ export async function checkRetentionPolicies(
 /**
  * Check organization-wide settings including mobile device management
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkOrganizationSettings(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ mobileDefenseSettings: GraphObject[]; securitySettings: GraphObject[] }>> {
   try {
     // Get MDM configuration
-    const mdmResponse = await callGraphApi<any>(
+    const mdmResponse = await callGraphApiCollection<GraphObject>(
       "/deviceManagement/mobileThreatDefenseConnectors",
-      accessToken
+      accessToken,
+      options
     );
     
     // Get security settings
-    const securityResponse = await callGraphApi<any>(
+    const securityResponse = await callGraphApiCollection<GraphObject>(
       "/security/secureScoreControlProfiles",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1174,27 +2209,32 @@ export async function checkOrganizationSettings(
 /**
  * Check Microsoft Defender for Office 365 configuration
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDefenderForOffice(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ antiPhishingPolicies: GraphObject[]; safeAttachmentPolicies: GraphObject[]; safeLinksPolicies: GraphObject[] }>> {
   try {
     // Anti-phishing policies
-    const phishingResponse = await callGraphApi<any>(
+    const phishingResponse = await callGraphApiCollection<GraphObject>(
       "/security/threatIntelligence/antiphishPolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     // Safe attachments policies
-    const attachmentsResponse = await callGraphApi<any>(
+    const attachmentsResponse = await callGraphApiCollection<GraphObject>(
       "/security/threatIntelligence/safeAttachmentPolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     // Safe links policies
-    const linksResponse = await callGraphApi<any>(
+    const linksResponse = await callGraphApiCollection<GraphObject>(
       "/security/threatIntelligence/safeLinksForSafelinkpolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1220,14 +2260,17 @@ export async function checkDefenderForOffice(
 /**
  * Check Intune device compliance policies
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkIntuneCompliancePolicies(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/deviceManagement/deviceCompliancePolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1246,14 +2289,17 @@ export async function checkIntuneCompliancePolicies(
 /**
  * Check Exchange transport rules for email security
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkExchangeTransportRules(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/admin/exchange/transportRules",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1272,40 +2318,49 @@ export async function checkExchangeTransportRules(
 /**
  * Check email authentication configuration (DMARC, SPF, DKIM)
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkEmailAuthentication(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ domains: GraphDomain[]; dkimConfiguration: { domain: string; dkimEnabled?: boolean }[] }>> {
   try {
     // Get domains
-    const domainsResponse = await callGraphApi<any>(
+    const domainsResponse = await callGraphApiCollection<GraphDomain>(
       "/domains",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!domainsResponse.success) {
-      return domainsResponse;
+      return asFailure(domainsResponse);
     }
     
     // Get DKIM configuration for domains
     const domains = domainsResponse.data.value;
     const dkimResults = [];
     
-    for (const domain of domains.slice(0, 5)) { // Limit to first 5 domains to avoid too many requests
-      if (domain.isInitial) {
-        const dkimResponse = await callGraphApi<any>(
-          `/admin/exchange/domains/${domain.id}/dkim`,
-          accessToken
-        );
-        
-        if (dkimResponse.success) {
-          dkimResults.push({
-            domain: domain.id,
-            dkimEnabled: dkimResponse.data.enabled
-          });
-        }
+    // Custom domains carry the tenant's mail; Microsoft signs the initial onmicrosoft.com domain itself.
+    // Batched, so every verified domain can be checked instead of only the first few
+    const dkimDomains = domains.filter(domain => domain.isVerified && !domain.isInitial);
+    const dkimResponses = await Promise.all(
+      dkimDomains.map(domain => callGraphApiBatched<{ enabled?: boolean }>(
+        `/admin/exchange/domains/${domain.id}/dkim`,
+        accessToken,
+        options
+      ))
+    );
+    
+    dkimDomains.forEach((domain, index) => {
+      const dkimResponse = dkimResponses[index];
+      
+      if (dkimResponse.success) {
+        dkimResults.push({
+          domain: domain.id,
+          dkimEnabled: dkimResponse.data.enabled
+        });
       }
-    }
+    });
     
     return {
       success: true,
@@ -1329,21 +2384,28 @@ export async function checkEmailAuthentication(
 /**
  * Check Microsoft Secure Score
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkSecureScore(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ secureScore: GraphObject[]; scoreControls: GraphObject[] }>> {
   try {
     // Get overall secure score
-    const scoreResponse = await callGraphApi<any>(
+    const scoreResponse = await callGraphApi<{ value: GraphObject[] }>(
       "/security/secureScores?$top=1",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     // Get secure score control profiles
-    const controlsResponse = await callGraphApi<any>(
+    const controlsResponse = await callGraphApiCollection<GraphObject>(
       "/security/secureScoreControlProfiles",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1368,15 +2430,18 @@ export async function checkSecureScore(
 /**
  * Check Microsoft Compliance Score
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkComplianceScore(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
     // Get compliance score (part of secure score in Graph API)
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/security/secureScores?$filter=controlCategory eq 'Compliance'",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1395,25 +2460,29 @@ export async function checkComplianceScore(
 /**
  * Get detailed license information for the tenant
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function getDetailedLicenses(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ subscribedSkus: SubscribedSku[]; licensedUsers: GraphUser[] }>> {
   try {
     // Get all available licenses (SKUs)
-    const skusResponse = await callGraphApi<any>(
+    const skusResponse = await callGraphApiCollection<SubscribedSku>(
       "/subscribedSkus",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!skusResponse.success) {
-      return skusResponse;
+      return asFailure(skusResponse);
     }
     
     // Get license assignment states
-    const usersWithLicenses = await callGraphApi<any>(
-      "/users?$select=id,displayName,userPrincipalName,assignedLicenses,userType&$top=100",
-      accessToken
+    const usersWithLicenses = await callGraphApiCollection<GraphUser>(
+      "/users?$select=id,displayName,userPrincipalName,assignedLicenses,userType&$top=999",
+      accessToken,
+      options
     );
     
     return {
@@ -1438,27 +2507,38 @@ export async function getDetailedLicenses(
 /**
  * Check Entra ID (formerly Azure AD) configuration and settings
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkEntraIDSettings(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ organizationDetails: GraphOrganization[]; directorySettings: GraphObject[]; authenticationMethodsPolicy: AuthenticationMethodsPolicy | null }>> {
   try {
     // Get organization details
-    const orgResponse = await callGraphApi<any>(
+    const orgResponse = await callGraphApi<{ value: GraphOrganization[] }>(
       "/organization?$select=id,displayName,verifiedDomains,technicalNotificationMails,securityComplianceNotificationMails,privacyProfile",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     // Get directory settings
-    const settingsResponse = await callGraphApi<any>(
+    const settingsResponse = await callGraphApiCollection<GraphObject>(
       "/settings",
-      accessToken
+      accessToken,
+      options
     );
     
     // Get authentication methods policy
-    const authMethodsResponse = await callGraphApi<any>(
+    const authMethodsResponse = await callGraphApi<AuthenticationMethodsPolicy>(
       "/policies/authenticationMethodsPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     return {
@@ -1484,27 +2564,35 @@ export async function checkEntraIDSettings(
 /**
  * Check MFA settings and excluded users/groups
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkMFAExclusions(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ mfaRegistrations: CredentialUserRegistrationDetails[]; conditionalAccessPolicies: ConditionalAccessPolicy[]; authenticationMethodsPolicy: AuthenticationMethodsPolicy | null }>> {
   try {
     // Get MFA registration details
-    const registrationResponse = await callGraphApi<any>(
+    const registrationResponse = await callGraphApiCollection<CredentialUserRegistrationDetails>(
       "/reports/credentialUserRegistrationDetails",
-      accessToken
+      accessToken,
+      options
     );
     
     // Get Conditional Access policies (to identify MFA exclusions)
-    const policiesResponse = await callGraphApi<any>(
+    const policiesResponse = await callGraphApiCollection<ConditionalAccessPolicy>(
       "/identity/conditionalAccess/policies?$select=id,displayName,state,conditions,grantControls",
-      accessToken
+      accessToken,
+      options
     );
     
     // Get authentication methods policy (for per-user MFA settings)
-    const authMethodsResponse = await callGraphApi<any>(
+    const authMethodsResponse = await callGraphApi<AuthenticationMethodsPolicy>(
       "/policies/authenticationMethodsPolicy",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     return {
@@ -1530,24 +2618,25 @@ export async function checkMFAExclusions(
 /**
  * Check device vulnerabilities in detail
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDeviceVulnerabilities(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ vulnerableDevices: ManagedDevice[]; compliancePolicies: GraphObject[] }>> {
   try {
     // Get vulnerable devices
-    const devicesResponse = await callGraphApi<any>(
+    const devicesResponse = await callGraphApiCollection<ManagedDevice>(
       "/deviceManagement/managedDevices?$select=id,deviceName,operatingSystem,osVersion,complianceState,jailBroken,managementState,model,manufacturer&$filter=complianceState ne 'compliant'&$count=true",
       accessToken,
-      undefined,
-      undefined,
-      true
+      { ...options, eventualConsistency: true }
     );
     
     // Get device compliance policies
-    const policiesResponse = await callGraphApi<any>(
+    const policiesResponse = await callGraphApiCollection<GraphObject>(
       "/deviceManagement/deviceCompliancePolicies",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1572,15 +2661,21 @@ export async function checkDeviceVulnerabilities(
 /**
  * Check Microsoft Defender for Endpoint exposure score
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDefenderExposureScore(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ value: GraphObject[] }>> {
   try {
     // Get exposure score
-    const response = await callGraphApi<any>(
+    const response = await callGraphApi<{ value: GraphObject[] }>(
       "/security/exposureScores?$top=1",
-      accessToken
+      accessToken,
+      undefined,
+      undefined,
+      undefined,
+      options
     );
     
     return response;
@@ -1599,15 +2694,18 @@ export async function checkDefenderExposureScore(
 /**
  * Check for devices with critical CVEs (Common Vulnerabilities and Exposures)
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkCriticalCVEs(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<GraphObject>>> {
   try {
     // Get vulnerability management data from Defender
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<GraphObject>(
       "/security/vulnerabilityManagement/vulnerabilities?$filter=severity eq 'Critical'",
-      accessToken
+      accessToken,
+      options
     );
     
     return response;
@@ -1626,21 +2724,25 @@ export async function checkCriticalCVEs(
 /**
  * Check for app registrations and enterprise applications
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkApplications(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ appRegistrations: GraphObject[]; enterpriseApps: ServicePrincipal[] }>> {
   try {
     // Get app registrations
-    const appsResponse = await callGraphApi<any>(
+    const appsResponse = await callGraphApiCollection<GraphObject>(
       "/applications?$select=id,appId,displayName,signInAudience,api,web,createdDateTime,keyCredentials,passwordCredentials",
-      accessToken
+      accessToken,
+      options
     );
     
     // Get service principals (enterprise apps)
-    const spResponse = await callGraphApi<any>(
+    const spResponse = await callGraphApiCollection<ServicePrincipal>(
       "/servicePrincipals?$select=id,appId,displayName,appRoles,servicePrincipalType,accountEnabled,oauth2PermissionScopes",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1665,23 +2767,26 @@ export async function checkApplications(
 /**
  * Check for details on email forwarding rules
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkDetailedEmailForwards(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ usersWithForwarding: GraphUser[]; detailedForwardingRules: UserForwardingRules[] }>> {
   try {
     // Get users with mail forwarding enabled
-    const usersResponse = await callGraphApi<any>(
+    const usersResponse = await callGraphApiCollection<GraphUser>(
       "/users?$select=id,displayName,userPrincipalName,mail,mailboxSettings",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!usersResponse.success) {
-      return usersResponse;
+      return asFailure(usersResponse);
     }
     
     // Extract users with forwarding rules
-    const usersWithForwarding = usersResponse.data.value.filter((user: any) => {
+    const usersWithForwarding = usersResponse.data.value.filter(user => {
       return user.mailboxSettings && 
              (user.mailboxSettings.automaticRepliesSetting?.externalAudience !== 'none' || 
               user.mailboxSettings.forwardingAddress || 
@@ -1689,16 +2794,21 @@ export async function checkDetailedEmailForwards(
     });
     
     // For each user with forwarding, get detailed rules if available
-    const detailedForwardingRules: any[] = [];
+    const detailedForwardingRules: UserForwardingRules[] = [];
     
-    for (const user of usersWithForwarding) {
-      const rulesResponse = await callGraphApi<any>(
+    const rulesResponses = await Promise.all(
+      usersWithForwarding.map(user => callGraphApiBatchedCollection<MessageRule>(
         `/users/${user.id}/mailFolders/inbox/messageRules`,
-        accessToken
-      );
+        accessToken,
+        options
+      ))
+    );
+    
+    usersWithForwarding.forEach((user, index) => {
+      const rulesResponse = rulesResponses[index];
       
-      if (rulesResponse.success && rulesResponse.data.value.length > 0) {
-        const forwardingRules = rulesResponse.data.value.filter((rule: any) => {
+      if (rulesResponse.success && rulesResponse.data.value?.length > 0) {
+        const forwardingRules = rulesResponse.data.value.filter(rule => {
           return rule.actions && (rule.actions.forwardTo || rule.actions.forwardAsAttachmentTo || rule.actions.redirectTo);
         });
         
@@ -1711,7 +2821,7 @@ export async function checkDetailedEmailForwards(
           });
         }
       }
-    }
+    });
     
     return {
       success: true,
@@ -1733,36 +2843,34 @@ export async function checkDetailedEmailForwards(
 }
 
 /**
- * Check for global admin roles and their assignments
+ * Check for administrative directory roles and their members, identified by
+ * roleTemplateId so reader roles are left out
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkGlobalAdminRoles(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<GraphCollection<DirectoryRole>>> {
   try {
     // Get directory roles
-    const response = await callGraphApi<any>(
+    const response = await callGraphApiCollection<DirectoryRole>(
       "/directoryRoles?$expand=members",
-      accessToken
+      accessToken,
+      options
     );
     
     if (!response.success) {
       return response;
     }
     
-    // Extract global admin roles
-    const allRoles = response.data.value;
-    const adminRoles = allRoles.filter((role: any) => {
-      // Global Administrator usually has ID "62e90394-69f5-4237-9190-012177145e10"
-      // But also include Company Administrator and other admin roles
-      return role.displayName.includes("Administrator") || 
-             role.displayName.includes("Admin") || 
-             role.roleTemplateId === "62e90394-69f5-4237-9190-012177145e10";
-    });
-    
+    // Keep administrative roles only; Global Reader and other reader roles grant no write access
     return {
-      success: true,
-      data: adminRoles
+      ...response,
+      data: {
+        ...response.data,
+        value: response.data.value.filter(role => isAdminRole(role.roleTemplateId))
+      }
     };
   } catch (error) {
     console.error("Error checking global admin roles:", error);
@@ -1779,21 +2887,25 @@ export async function checkGlobalAdminRoles(
 /**
  * Check for Microsoft 365 backup configurations
  * @param accessToken - The Microsoft Graph access token
+ * @param options - AbortSignal and progress observer passed to each Graph request
  */
 export async function checkM365Backups(
-  accessToken: string
-): Promise<GraphApiResponse<any>> {
+  accessToken: string,
+  options?: GraphRequestOptions
+): Promise<GraphApiResponse<{ backupPolicies: GraphObject[]; retentionPolicies: GraphObject[] }>> {
   try {
     // Check for backup policies if available
-    const policiesResponse = await callGraphApi<any>(
+    const policiesResponse = await callGraphApiCollection<GraphObject>(
       "/security/dataProtection/policies",
-      accessToken
+      accessToken,
+      options
     );
     
     // Check for retention policies as part of backup strategy
-    const retentionResponse = await callGraphApi<any>(
+    const retentionResponse = await callGraphApiCollection<GraphObject>(
       "/security/informationProtection/policy/labels",
-      accessToken
+      accessToken,
+      options
     );
     
     return {
@@ -1819,7 +2931,7 @@ export async function checkM365Backups(
  * Handle Graph API errors with user-friendly messages
  * @param error - Error from Graph API call
  */
-export function handleGraphError(error: any): void {
+export function handleGraphError(error: string | Pick<GraphApiResponse<unknown>, "statusCode" | "error">): void {
   let message = "An error occurred when connecting to Microsoft Graph";
   
   // Handle specific error cases
@@ -1847,7 +2959,14 @@ export function handleGraphError(error: any): void {
  * @param scanData - The scan data to check
  * @returns boolean indicating if scan has real data
  */
-export function hasRealGraphData(scanData: any): boolean {
+export function hasRealGraphData(
+  scanData: { dataSource?: string; rawData?: Record<string, { value?: unknown[] } | undefined> }
+): boolean {
+  // Replayed scans show what a fixture recorded, not the tenant as it is now
+  if (scanData?.dataSource === "fixture") {
+    return false;
+  }
+
   // Check if rawData has populated users or other Graph data
   return !!(scanData && 
            scanData.rawData && 
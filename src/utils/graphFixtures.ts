@@ -0,0 +1,370 @@
+import { z } from "zod";
+import { GraphRequestObserver } from "@/utils/graphApi";
+
+// One Graph request and the response it got, as seen by callGraphApi
+export interface GraphFixtureEntry {
+  method: string;
+  endpoint: string;
+  body?: unknown;
+  statusCode: number;
+  response: unknown;
+}
+
+// A recorded scan that can be replayed without a live tenant
+export interface GraphFixture {
+  version: 1;
+  recordedAt: string;
+  tenantId: string;
+  // Permissions the recording session was granted, so readiness matches the original scan
+  grantedScopes: string[];
+  // Personal data and secrets were replaced with placeholders before saving
+  scrubbed: boolean;
+  entries: GraphFixtureEntry[];
+}
+
+const graphFixtureSchema = z.object({
+  version: z.literal(1),
+  recordedAt: z.string(),
+  tenantId: z.string(),
+  grantedScopes: z.array(z.string()),
+  scrubbed: z.boolean(),
+  entries: z.array(z.object({
+    method: z.string(),
+    endpoint: z.string(),
+    body: z.unknown().optional(),
+    statusCode: z.number().int().min(200).max(599),
+    response: z.unknown(),
+  })),
+});
+
+const RECORDING_KEY = "graphFixtureRecording";
+const REPLAY_FIXTURE_KEY = "graphReplayFixture";
+
+// Tenant id written into scrubbed fixtures in place of the real one
+const SCRUBBED_TENANT_ID = "00000000-0000-0000-0000-000000000000";
+
+// Batches are recorded as their individual requests, so replay never depends on how requests were grouped
+const UNRECORDED_ENDPOINTS = ["/$batch"];
+
+export interface FixtureRecordingSettings {
+  enabled: boolean;
+  scrub: boolean;
+}
+
+/**
+ * Whether scans should be recorded to a fixture file, and whether to scrub it
+ */
+export function getFixtureRecordingSettings(): FixtureRecordingSettings {
+  try {
+    const saved = localStorage.getItem(RECORDING_KEY);
+    return saved ? JSON.parse(saved) : { enabled: false, scrub: true };
+  } catch (error) {
+    console.error("Error reading fixture recording settings:", error);
+    return { enabled: false, scrub: true };
+  }
+}
+
+/**
+ * Persist the fixture recording settings
+ * @param settings - Whether to record, and whether to scrub the recording
+ */
+export function saveFixtureRecordingSettings(settings: FixtureRecordingSettings): void {
+  localStorage.setItem(RECORDING_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Parse and validate the contents of a fixture file
+ * @param text - The file's JSON text
+ * @throws Error naming what is wrong with the file
+ */
+export function parseGraphFixture(text: string): GraphFixture {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("The fixture file is not valid JSON");
+  }
+  const parsed = graphFixtureSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`The fixture file is not a Graph fixture (${issue.path.join(".") || "root"}: ${issue.message})`);
+  }
+  return parsed.data as GraphFixture;
+}
+
+let replayFixture: GraphFixture | null | undefined;
+let replayIndex: Map<string, GraphFixtureEntry> | null = null;
+
+const requestKey = (method: string, endpoint: string, body?: unknown) =>
+  `${method.toUpperCase()} ${endpoint} ${body === undefined ? "" : JSON.stringify(body)}`;
+
+// Index the fixture by request so replay lookups stay constant-time
+const setReplayFixture = (fixture: GraphFixture | null) => {
+  replayFixture = fixture;
+  replayIndex = fixture ? new Map() : null;
+  fixture?.entries.forEach(entry => {
+    const key = requestKey(entry.method, entry.endpoint, entry.body);
+    if (!replayIndex.has(key)) {
+      replayIndex.set(key, entry);
+    }
+  });
+};
+
+/**
+ * The fixture scans are currently replayed from, if any
+ */
+export function getReplayFixture(): GraphFixture | null {
+  if (replayFixture === undefined) {
+    try {
+      const saved = localStorage.getItem(REPLAY_FIXTURE_KEY);
+      setReplayFixture(saved ? parseGraphFixture(saved) : null);
+    } catch (error) {
+      console.error("Error reading replay fixture:", error);
+      setReplayFixture(null);
+    }
+  }
+  return replayFixture;
+}
+
+/**
+ * Serve every Graph request from a fixture until replay is stopped
+ * @param fixture - The fixture to replay
+ * @returns False when the fixture is too large to keep across page reloads
+ */
+export function startFixtureReplay(fixture: GraphFixture): boolean {
+  setReplayFixture(fixture);
+  try {
+    localStorage.setItem(REPLAY_FIXTURE_KEY, JSON.stringify(fixture));
+    return true;
+  } catch (error) {
+    console.warn("Replay fixture is too large to keep across reloads:", error);
+    localStorage.removeItem(REPLAY_FIXTURE_KEY);
+    return false;
+  }
+}
+
+/**
+ * Go back to querying the live tenant
+ */
+export function stopFixtureReplay(): void {
+  setReplayFixture(null);
+  localStorage.removeItem(REPLAY_FIXTURE_KEY);
+}
+
+/**
+ * Whether Graph requests are being answered from a replay fixture
+ */
+export function isReplayingFixture(): boolean {
+  return !!getReplayFixture();
+}
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+/**
+ * Session for a replayed scan: an unsigned token carrying the recorded tenant
+ * and scopes, which only ever reaches the fixture and never Microsoft
+ * @param fixture - The fixture being replayed
+ */
+export function getReplaySession(fixture: GraphFixture): { accessToken: string; tenantId: string } {
+  const header = base64Url(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = base64Url(JSON.stringify({ tid: fixture.tenantId, scp: fixture.grantedScopes.join(" ") }));
+  return { accessToken: `${header}.${payload}.`, tenantId: fixture.tenantId };
+}
+
+/**
+ * Answer a Graph request from the replay fixture; requests the fixture never
+ * saw get a 404 so their checks fail visibly instead of reaching the network
+ * @param method - HTTP method
+ * @param endpoint - The Graph API endpoint
+ * @param body - Request body, if any
+ * @param observer - Notified of the replayed request like a live one
+ */
+export function replayGraphRequest(
+  method: string,
+  endpoint: string,
+  body?: unknown,
+  observer?: GraphRequestObserver
+): Response {
+  observer?.onRequest?.();
+  getReplayFixture();
+  const entry = replayIndex?.get(requestKey(method, endpoint, body));
+  if (!entry) {
+    return new Response(JSON.stringify({
+      error: { code: "NotRecorded", message: `${method} ${endpoint} is not in the replay fixture` }
+    }), { status: 404, headers: { "Content-Type": "application/json" } });
+  }
+  return new Response(entry.statusCode === 204 ? null : JSON.stringify(entry.response), {
+    status: entry.statusCode,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+interface ActiveRecording {
+  tenantId: string;
+  grantedScopes: string[];
+  entries: GraphFixtureEntry[];
+}
+
+let activeRecording: ActiveRecording | null = null;
+
+/**
+ * Start collecting every Graph exchange for a fixture
+ * @param tenantId - The tenant being scanned
+ * @param grantedScopes - Permissions granted to the scanning session
+ */
+export function startFixtureRecording(tenantId: string, grantedScopes: string[]): void {
+  activeRecording = { tenantId, grantedScopes, entries: [] };
+}
+
+/**
+ * Whether Graph exchanges are currently being recorded
+ */
+export function isRecordingFixture(): boolean {
+  return !!activeRecording;
+}
+
+/**
+ * Add one Graph exchange to the active recording, if there is one
+ * @param method - HTTP method
+ * @param endpoint - The Graph API endpoint
+ * @param body - Request body, if any
+ * @param statusCode - Response status
+ * @param response - Parsed response body
+ */
+export function recordGraphExchange(
+  method: string,
+  endpoint: string,
+  body: unknown,
+  statusCode: number,
+  response: unknown
+): void {
+  if (!activeRecording || UNRECORDED_ENDPOINTS.includes(endpoint)) {
+    return;
+  }
+  activeRecording.entries.push({ method, endpoint, body, statusCode, response });
+}
+
+/**
+ * Stop recording and build the fixture from what was recorded
+ * @param scrub - Replace personal data and secrets with placeholders
+ */
+export function finishFixtureRecording(scrub: boolean): GraphFixture | null {
+  const recording = activeRecording;
+  activeRecording = null;
+  if (!recording) {
+    return null;
+  }
+
+  const fixture: GraphFixture = {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    tenantId: recording.tenantId,
+    grantedScopes: recording.grantedScopes,
+    scrubbed: scrub,
+    entries: recording.entries,
+  };
+  return scrub ? scrubGraphFixture(fixture) : fixture;
+}
+
+// Properties whose values are secrets and are dropped outright
+const SECRET_KEYS = ["secretText", "key", "hint", "customKeyIdentifier", "password", "passwordProfile"];
+// Properties that identify a person and get a consistent placeholder
+const PERSON_NAME_KEYS = ["givenName", "surname", "userDisplayName", "initiatedByUserPrincipalName"];
+const CONTACT_KEYS = ["mobilePhone", "businessPhones", "faxNumber", "streetAddress", "postalCode", "city", "employeeId"];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+'-]+@([A-Za-z0-9-]+\.)+[A-Za-z]{2,}/g;
+
+/**
+ * Replace personal data and secrets in a fixture with placeholders. Each real
+ * value always maps to the same placeholder, so cross-references such as
+ * mailbox domains against verified domains still line up on replay.
+ * @param fixture - The recorded fixture
+ */
+export function scrubGraphFixture(fixture: GraphFixture): GraphFixture {
+  const emails = new Map<string, string>();
+  const domains = new Map<string, string>();
+  const names = new Map<string, string>();
+
+  const placeholderDomain = (domain: string) => {
+    const key = domain.toLowerCase();
+    if (!domains.has(key)) {
+      domains.set(key, `domain${domains.size + 1}.example`);
+    }
+    return domains.get(key);
+  };
+
+  const placeholderEmail = (address: string) => {
+    const key = address.toLowerCase();
+    if (!emails.has(key)) {
+      emails.set(key, `user${emails.size + 1}@${placeholderDomain(key.split("@")[1])}`);
+    }
+    return emails.get(key);
+  };
+
+  const placeholderName = (name: string) => {
+    if (!names.has(name)) {
+      names.set(name, `Person ${names.size + 1}`);
+    }
+    return names.get(name);
+  };
+
+  const scrubString = (value: string) =>
+    value
+      .split(fixture.tenantId).join(SCRUBBED_TENANT_ID)
+      .replace(EMAIL_PATTERN, address => placeholderEmail(address));
+
+  // A directory object that stands for a person rather than a policy, group or app
+  const isPerson = (value: Record<string, unknown>) =>
+    !!value.userPrincipalName || value["@odata.type"] === "#microsoft.graph.user";
+
+  const scrub = (value: unknown, key?: string, parent?: Record<string, unknown>): unknown => {
+    if (value === null || value === undefined) return value;
+    if (key && SECRET_KEYS.includes(key)) return "[redacted]";
+    if (key && CONTACT_KEYS.includes(key)) return Array.isArray(value) ? [] : "[redacted]";
+    if (Array.isArray(value)) return value.map(item => scrub(item, key === "verifiedDomains" ? "verifiedDomain" : undefined, parent));
+    if (typeof value === "object") {
+      const domainList = key === "verifiedDomain";
+      return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [
+        childKey,
+        domainList && childKey === "name" && typeof child === "string"
+          ? placeholderDomain(child)
+          : scrub(child, childKey, value as Record<string, unknown>)
+      ]));
+    }
+    if (typeof value !== "string") return value;
+    if (key && (PERSON_NAME_KEYS.includes(key) || (key === "displayName" && parent && isPerson(parent)))) {
+      return placeholderName(value);
+    }
+    return scrubString(value);
+  };
+
+  return {
+    ...fixture,
+    tenantId: SCRUBBED_TENANT_ID,
+    scrubbed: true,
+    entries: fixture.entries.map(entry => ({
+      ...entry,
+      endpoint: scrubString(entry.endpoint),
+      body: scrub(entry.body),
+      response: scrub(entry.response),
+    })),
+  };
+}
+
+/**
+ * Save a fixture as a JSON file download
+ * @param fixture - The fixture to save
+ */
+export function downloadGraphFixture(fixture: GraphFixture): void {
+  const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: "application/json" });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", `graph-fixture-${fixture.recordedAt.slice(0, 10)}.json`);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,597 @@
+import { z } from "zod";
+
+// Runtime schemas for the Graph resources the scanner reads. Each schema lists
+// only the properties checks depend on and passes everything else through, so
+// extra $select fields never fail validation. The description names the model
+// in scan diagnostics.
+
+const assignedLicenseSchema = z.object({
+  skuId: z.string(),
+  disabledPlans: z.array(z.string()).optional(),
+}).passthrough();
+
+const signInActivitySchema = z.object({
+  lastSignInDateTime: z.string().nullish(),
+  lastNonInteractiveSignInDateTime: z.string().nullish(),
+}).passthrough();
+
+export const userSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  mail: z.string().nullish(),
+  accountEnabled: z.boolean().nullish(),
+  userType: z.string().nullish(),
+  createdDateTime: z.string().nullish(),
+  externalUserState: z.string().nullish(),
+  passwordPolicies: z.string().nullish(),
+  assignedLicenses: z.array(assignedLicenseSchema).optional(),
+  signInActivity: signInActivitySchema.nullish(),
+  recipientTypeDetails: z.string().nullish(),
+  mailboxSettings: z.object({
+    automaticRepliesSetting: z.object({ externalAudience: z.string().nullish() }).passthrough().nullish(),
+    forwardingAddress: z.string().nullish(),
+    forwardingSmtpAddress: z.string().nullish(),
+  }).passthrough().nullish(),
+}).passthrough().describe("user");
+
+export const organizationSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  verifiedDomains: z.array(z.object({
+    name: z.string(),
+    isDefault: z.boolean().nullish(),
+    isInitial: z.boolean().nullish(),
+  }).passthrough()).optional(),
+}).passthrough().describe("organization");
+
+export const credentialUserRegistrationDetailsSchema = z.object({
+  id: z.string(),
+  userPrincipalName: z.string().nullish(),
+  userDisplayName: z.string().nullish(),
+  isRegistered: z.boolean(),
+  isEnabled: z.boolean().nullish(),
+  isCapable: z.boolean().nullish(),
+  isMfaRegistered: z.boolean(),
+  authMethods: z.array(z.string()).optional(),
+}).passthrough().describe("credentialUserRegistrationDetails");
+
+// Member of a directory object relationship such as owners or members
+const directoryObjectSchema = z.object({
+  id: z.string(),
+  "@odata.type": z.string().optional(),
+  displayName: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+}).passthrough();
+
+export const groupSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  description: z.string().nullish(),
+  visibility: z.string().nullish(),
+  membershipRule: z.string().nullish(),
+  groupTypes: z.array(z.string()).optional(),
+  securityEnabled: z.boolean().nullish(),
+  mailEnabled: z.boolean().nullish(),
+  isAssignableToRole: z.boolean().nullish(),
+  owners: z.array(directoryObjectSchema).optional(),
+  members: z.array(directoryObjectSchema).optional(),
+  // Counted by the groups check; a lower bound when the member pages hit the cap
+  memberCount: z.number().optional(),
+}).passthrough().describe("group");
+
+export const riskyUserSchema = z.object({
+  id: z.string(),
+  userPrincipalName: z.string().nullish(),
+  userDisplayName: z.string().nullish(),
+  riskLevel: z.string().nullish(),
+  riskState: z.string().nullish(),
+  riskLastUpdatedDateTime: z.string().nullish(),
+}).passthrough().describe("riskyUser");
+
+// One enabled inbox rule that sends mail on to other recipients
+export const mailboxForwardingRuleSchema = z.object({
+  mailbox: z.string(),
+  ruleName: z.string().nullish(),
+  forwardTo: z.array(z.string()),
+}).passthrough().describe("mailboxForwardingRule");
+
+export const directoryRoleSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  roleTemplateId: z.string(),
+  members: z.array(directoryObjectSchema).optional(),
+}).passthrough().describe("directoryRole");
+
+// A role assignment or eligibility schedule from PIM, with its principal expanded
+const roleScheduleSchema = z.object({
+  id: z.string(),
+  principalId: z.string(),
+  roleDefinitionId: z.string(),
+  // "Assigned" for standing access, "Activated" for a just-in-time activation
+  assignmentType: z.string().nullish(),
+  memberType: z.string().nullish(),
+  scheduleInfo: z.object({
+    expiration: z.object({
+      type: z.string().nullish(),
+      endDateTime: z.string().nullish(),
+    }).passthrough().nullish(),
+  }).passthrough().nullish(),
+  principal: directoryObjectSchema.nullish(),
+}).passthrough();
+
+const roleManagementPolicyRuleSchema = z.object({
+  id: z.string(),
+  "@odata.type": z.string().optional(),
+  enabledRules: z.array(z.string()).optional(),
+  isEnabled: z.boolean().nullish(),
+  maximumDuration: z.string().nullish(),
+  setting: z.object({
+    isApprovalRequired: z.boolean().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+// The PIM settings policy of one directory role
+const roleManagementPolicyAssignmentSchema = z.object({
+  id: z.string(),
+  roleDefinitionId: z.string(),
+  policy: z.object({
+    id: z.string(),
+    rules: z.array(roleManagementPolicyRuleSchema).optional(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const pimConfigurationSchema = z.object({
+  rolePolicies: z.array(roleManagementPolicyAssignmentSchema),
+  eligibleAssignments: z.array(roleScheduleSchema),
+  activeAssignments: z.array(roleScheduleSchema),
+}).passthrough().describe("pimConfiguration");
+
+export const managedDeviceSchema = z.object({
+  id: z.string(),
+  deviceName: z.string().nullish(),
+  operatingSystem: z.string().nullish(),
+  osVersion: z.string().nullish(),
+  complianceState: z.string().nullish(),
+  lastSyncDateTime: z.string().nullish(),
+  enrolledDateTime: z.string().nullish(),
+  jailBroken: z.string().nullish(),
+  managementState: z.string().nullish(),
+  isEncrypted: z.boolean().nullish(),
+  model: z.string().nullish(),
+  manufacturer: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  userDisplayName: z.string().nullish(),
+}).passthrough().describe("managedDevice");
+
+const conditionalAccessUsersSchema = z.object({
+  includeUsers: z.array(z.string()).optional(),
+  excludeUsers: z.array(z.string()).optional(),
+  includeGroups: z.array(z.string()).optional(),
+  excludeGroups: z.array(z.string()).optional(),
+  includeRoles: z.array(z.string()).optional(),
+  excludeRoles: z.array(z.string()).optional(),
+  includeGuestsOrExternalUsers: z.object({}).passthrough().nullish(),
+  excludeGuestsOrExternalUsers: z.object({}).passthrough().nullish(),
+}).passthrough();
+
+export const conditionalAccessPolicySchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  state: z.string(),
+  conditions: z.object({
+    users: conditionalAccessUsersSchema.nullish(),
+    applications: z.object({
+      includeApplications: z.array(z.string()).optional(),
+      excludeApplications: z.array(z.string()).optional(),
+      includeUserActions: z.array(z.string()).optional(),
+      includeAuthenticationContextClassReferences: z.array(z.string()).optional(),
+    }).passthrough().nullish(),
+    clientAppTypes: z.array(z.string()).optional(),
+    locations: z.object({
+      includeLocations: z.array(z.string()).optional(),
+      excludeLocations: z.array(z.string()).optional(),
+    }).passthrough().nullish(),
+    signInRiskLevels: z.array(z.string()).optional(),
+    userRiskLevels: z.array(z.string()).optional(),
+  }).passthrough().nullish(),
+  grantControls: z.object({
+    operator: z.string().nullish(),
+    builtInControls: z.array(z.string()).optional(),
+    authenticationStrength: z.object({ id: z.string() }).passthrough().nullish(),
+  }).passthrough().nullish(),
+}).passthrough().describe("conditionalAccessPolicy");
+
+export const authenticationStrengthPolicySchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  policyType: z.string().nullish(),
+  // Each entry is one accepted method combination, e.g. "password,sms" or "fido2"
+  allowedCombinations: z.array(z.string()),
+}).passthrough().describe("authenticationStrengthPolicy");
+
+export const authenticationStrengthStatusSchema = z.object({
+  strengthPolicies: z.array(authenticationStrengthPolicySchema),
+  conditionalAccessPolicies: z.array(conditionalAccessPolicySchema),
+}).passthrough().describe("authenticationStrengthStatus");
+
+// One sign-in over a legacy authentication protocol, from the sign-in logs
+export const legacySignInSchema = z.object({
+  userId: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  clientAppUsed: z.string(),
+  createdDateTime: z.string(),
+  succeeded: z.boolean(),
+}).passthrough().describe("legacySignIn");
+
+export const legacyAuthenticationStatusSchema = z.object({
+  conditionalAccessPolicies: z.array(conditionalAccessPolicySchema),
+  authenticationMethodsPolicy: z.object({}).passthrough().nullish(),
+  // Null when the sign-in logs could not be read, e.g. without Entra ID P1
+  legacySignIns: z.array(legacySignInSchema).nullable(),
+}).passthrough().describe("legacyAuthenticationStatus");
+
+export const securityDefaultsPolicySchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  isEnabled: z.boolean(),
+}).passthrough().describe("identitySecurityDefaultsEnforcementPolicy");
+
+// Per-feature switch in an authentication method's settings; "default" leaves it to Microsoft
+const authenticationFeatureStateSchema = z.object({
+  state: z.string(),
+}).passthrough();
+
+const authenticationMethodConfigurationSchema = z.object({
+  id: z.string(),
+  state: z.string(),
+  includeTargets: z.array(z.object({
+    id: z.string(),
+    targetType: z.string().nullish(),
+    isUsableForSignIn: z.boolean().nullish(),
+  }).passthrough()).optional(),
+  featureSettings: z.object({
+    numberMatchingRequiredState: authenticationFeatureStateSchema.nullish(),
+    displayAppInformationRequiredState: authenticationFeatureStateSchema.nullish(),
+    displayLocationInformationRequiredState: authenticationFeatureStateSchema.nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const authenticationMethodsPolicySchema = z.object({
+  id: z.string(),
+  registrationEnforcement: z.object({
+    authenticationMethodsRegistrationCampaign: z.object({
+      state: z.string(),
+    }).passthrough().nullish(),
+  }).passthrough().nullish(),
+  authenticationMethodConfigurations: z.array(authenticationMethodConfigurationSchema).optional(),
+}).passthrough().describe("authenticationMethodsPolicy");
+
+export const sharePointSettingsSchema = z.object({
+  sharingCapability: z.string(),
+  sharingDomainRestrictionMode: z.string().nullish(),
+  sharingAllowedDomainList: z.array(z.string()).nullish(),
+  sharingBlockedDomainList: z.array(z.string()).nullish(),
+}).passthrough();
+
+// Graph's site resource does not carry the site's own sharing level
+export const sharePointSiteSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  webUrl: z.string().nullish(),
+}).passthrough();
+
+export const sharePointSharingSchema = z.object({
+  organizationSettings: sharePointSettingsSchema,
+  sites: z.array(sharePointSiteSchema),
+  // Set when the site list hit the page cap
+  truncated: z.boolean().optional(),
+}).passthrough().describe("sharePointSharing");
+
+// A permission on a document library item that reaches outside the organization
+export const sharingLinkSchema = z.object({
+  siteName: z.string(),
+  siteUrl: z.string().nullish(),
+  itemPath: z.string(),
+  itemType: z.enum(["file", "folder"]),
+  // "anonymous" for Anyone links, "external" for links or grants to guests and outside addresses
+  audience: z.enum(["anonymous", "external"]),
+  // Link type such as "view" or "edit"; absent for direct grants
+  linkType: z.string().nullish(),
+  roles: z.array(z.string()),
+  expirationDateTime: z.string().nullish(),
+  grantees: z.array(z.string()),
+}).passthrough();
+
+export const sharingLinkScanSchema = z.object({
+  sitesScanned: z.number(),
+  itemsScanned: z.number(),
+  // Set when the site, item or permission caps cut the scan short, or some sites could not be read
+  truncated: z.boolean(),
+  skippedSites: z.array(z.string()).optional(),
+  links: z.array(sharingLinkSchema),
+}).passthrough().describe("sharePointSharingLinks");
+
+export const subscribedSkuSchema = z.object({
+  skuId: z.string(),
+  skuPartNumber: z.string().nullish(),
+  consumedUnits: z.number().nullish(),
+  prepaidUnits: z.object({ enabled: z.number().nullish() }).passthrough().nullish(),
+  servicePlans: z.array(z.object({
+    servicePlanId: z.string(),
+    servicePlanName: z.string().nullish(),
+  }).passthrough()),
+}).passthrough().describe("subscribedSku");
+
+export const servicePrincipalSchema = z.object({
+  id: z.string(),
+  appId: z.string().nullish(),
+  displayName: z.string().nullish(),
+  servicePrincipalType: z.string().nullish(),
+  appOwnerOrganizationId: z.string().nullish(),
+  accountEnabled: z.boolean().nullish(),
+}).passthrough().describe("servicePrincipal");
+
+export const namedLocationSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  "@odata.type": z.string().optional(),
+  isTrusted: z.boolean().nullish(),
+  ipRanges: z.array(z.object({ cidrAddress: z.string() }).passthrough()).optional(),
+  countriesAndRegions: z.array(z.string()).optional(),
+  includeUnknownCountriesAndRegions: z.boolean().nullish(),
+}).passthrough().describe("namedLocation");
+
+export const administrativeUnitSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  isMemberManagementRestricted: z.boolean().nullish(),
+  scopedRoleMembers: z.array(z.object({
+    // Object id of the activated directory role, not its template id
+    roleId: z.string(),
+    roleMemberInfo: z.object({
+      id: z.string(),
+      displayName: z.string().nullish(),
+      userPrincipalName: z.string().nullish(),
+    }).passthrough(),
+    // Resolved by the administrative units check from /directoryRoles
+    roleTemplateId: z.string().optional(),
+    roleName: z.string().optional(),
+  }).passthrough()).optional(),
+  // Counted by the administrative units check; a lower bound when the member pages hit the cap
+  memberCount: z.number().optional(),
+}).passthrough().describe("administrativeUnit");
+
+// Licensed users idle for 30+ days, and the tenant's service plan names by id
+export const unusedLicensesSchema = z.object({
+  unusedCount: z.number(),
+  unusedLicenses: z.array(z.string()),
+  serviceNameMap: z.record(z.string(), z.string().nullish()),
+}).passthrough().describe("unusedLicenses");
+
+// Raw resources fetchers read and reshape before a check stores them; they
+// type the Graph responses and are not validated on their own
+
+// Any resource that is passed along without reading its properties
+export const graphObjectSchema = z.object({
+  id: z.string().optional(),
+}).passthrough();
+
+const emailAddressSchema = z.object({
+  name: z.string().nullish(),
+  address: z.string().nullish(),
+}).passthrough();
+
+const recipientSchema = z.object({
+  emailAddress: emailAddressSchema.nullish(),
+}).passthrough();
+
+export const messageRuleSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  isEnabled: z.boolean().nullish(),
+  actions: z.object({
+    forwardTo: z.array(recipientSchema).nullish(),
+    forwardAsAttachmentTo: z.array(recipientSchema).nullish(),
+    redirectTo: z.array(recipientSchema).nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+// A user's inbox rules that forward or redirect mail
+export const userForwardingRulesSchema = z.object({
+  userId: z.string(),
+  displayName: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  forwardingRules: z.array(messageRuleSchema),
+}).passthrough();
+
+export const calendarPermissionSchema = z.object({
+  id: z.string(),
+  emailAddress: emailAddressSchema.nullish(),
+  // False for the owner and the default "My Organization" entries
+  isRemovable: z.boolean().nullish(),
+  role: z.string(),
+}).passthrough();
+
+// One delegate's access to another user's mailbox
+export const mailboxDelegationSchema = z.object({
+  mailboxOwner: z.string().nullish(),
+  mailboxId: z.string(),
+  delegateEmail: z.string().nullish(),
+  permissions: z.array(z.string()),
+}).passthrough();
+
+// A holder of a directory role with no sign-in for 30+ days
+export const inactiveAdminSchema = z.object({
+  id: z.string(),
+  displayName: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  roleName: z.string().nullish(),
+  lastSignIn: z.string(),
+}).passthrough();
+
+// An entry in the sign-in logs; errorCode 0 marks a successful sign-in
+export const signInSchema = z.object({
+  userId: z.string().nullish(),
+  userPrincipalName: z.string().nullish(),
+  clientAppUsed: z.string(),
+  createdDateTime: z.string(),
+  status: z.object({ errorCode: z.number().nullish() }).passthrough().nullish(),
+}).passthrough();
+
+export const domainSchema = z.object({
+  id: z.string(),
+  isDefault: z.boolean().nullish(),
+  isInitial: z.boolean().nullish(),
+  isVerified: z.boolean().nullish(),
+}).passthrough();
+
+export const driveItemSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  root: z.object({}).passthrough().nullish(),
+  file: z.object({}).passthrough().nullish(),
+  folder: z.object({}).passthrough().nullish(),
+  shared: z.object({}).passthrough().nullish(),
+  deleted: z.object({}).passthrough().nullish(),
+  parentReference: z.object({
+    driveId: z.string(),
+    // e.g. "/drive/root:/Reports"
+    path: z.string().nullish(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+const sharingIdentitySchema = z.object({
+  email: z.string().nullish(),
+  loginName: z.string().nullish(),
+  displayName: z.string().nullish(),
+}).passthrough();
+
+const sharingIdentitySetSchema = z.object({
+  user: sharingIdentitySchema.nullish(),
+  siteUser: sharingIdentitySchema.nullish(),
+}).passthrough();
+
+export const drivePermissionSchema = z.object({
+  id: z.string(),
+  roles: z.array(z.string()).optional(),
+  link: z.object({
+    scope: z.string().nullish(),
+    type: z.string().nullish(),
+  }).passthrough().nullish(),
+  expirationDateTime: z.string().nullish(),
+  inheritedFrom: z.object({}).passthrough().nullish(),
+  grantedToV2: sharingIdentitySetSchema.nullish(),
+  grantedToIdentitiesV2: z.array(sharingIdentitySetSchema).optional(),
+  invitation: z.object({ email: z.string().nullish() }).passthrough().nullish(),
+}).passthrough();
+
+export type GraphUser = z.infer<typeof userSchema>;
+export type GraphOrganization = z.infer<typeof organizationSchema>;
+export type CredentialUserRegistrationDetails = z.infer<typeof credentialUserRegistrationDetailsSchema>;
+export type GraphGroup = z.infer<typeof groupSchema>;
+export type RiskyUser = z.infer<typeof riskyUserSchema>;
+export type MailboxForwardingRule = z.infer<typeof mailboxForwardingRuleSchema>;
+export type DirectoryRole = z.infer<typeof directoryRoleSchema>;
+export type RoleSchedule = z.infer<typeof roleScheduleSchema>;
+export type RoleManagementPolicyAssignment = z.infer<typeof roleManagementPolicyAssignmentSchema>;
+export type PimConfiguration = z.infer<typeof pimConfigurationSchema>;
+export type ManagedDevice = z.infer<typeof managedDeviceSchema>;
+export type ConditionalAccessPolicy = z.infer<typeof conditionalAccessPolicySchema>;
+export type SecurityDefaultsPolicy = z.infer<typeof securityDefaultsPolicySchema>;
+export type AuthenticationStrengthPolicy = z.infer<typeof authenticationStrengthPolicySchema>;
+export type AuthenticationStrengthStatus = z.infer<typeof authenticationStrengthStatusSchema>;
+export type LegacySignIn = z.infer<typeof legacySignInSchema>;
+export type LegacyAuthenticationStatus = z.infer<typeof legacyAuthenticationStatusSchema>;
+export type AuthenticationMethodConfiguration = z.infer<typeof authenticationMethodConfigurationSchema>;
+export type AuthenticationMethodsPolicy = z.infer<typeof authenticationMethodsPolicySchema>;
+export type SharePointSettings = z.infer<typeof sharePointSettingsSchema>;
+export type SharePointSite = z.infer<typeof sharePointSiteSchema>;
+export type SharePointSharing = z.infer<typeof sharePointSharingSchema>;
+export type SharingLink = z.infer<typeof sharingLinkSchema>;
+export type SharingLinkScan = z.infer<typeof sharingLinkScanSchema>;
+export type SubscribedSku = z.infer<typeof subscribedSkuSchema>;
+export type ServicePrincipal = z.infer<typeof servicePrincipalSchema>;
+export type NamedLocation = z.infer<typeof namedLocationSchema>;
+export type AdministrativeUnit = z.infer<typeof administrativeUnitSchema>;
+export type UnusedLicenses = z.infer<typeof unusedLicensesSchema>;
+export type GraphObject = z.infer<typeof graphObjectSchema>;
+export type MessageRule = z.infer<typeof messageRuleSchema>;
+export type UserForwardingRules = z.infer<typeof userForwardingRulesSchema>;
+export type CalendarPermission = z.infer<typeof calendarPermissionSchema>;
+export type MailboxDelegation = z.infer<typeof mailboxDelegationSchema>;
+export type InactiveAdmin = z.infer<typeof inactiveAdminSchema>;
+export type SignIn = z.infer<typeof signInSchema>;
+export type GraphDomain = z.infer<typeof domainSchema>;
+export type DriveItem = z.infer<typeof driveItemSchema>;
+export type DrivePermission = z.infer<typeof drivePermissionSchema>;
+
+// Objects Graph returned that did not match the model a check expects
+export interface GraphModelDiagnostic {
+  // Check id, or the endpoint for data validated inside a fetcher
+  source: string;
+  model: string;
+  invalidCount: number;
+  total: number;
+  // The first few validation errors, as "path: message"
+  issues: string[];
+}
+
+const MAX_REPORTED_ISSUES = 5;
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+/**
+ * Validate Graph data against its model, keeping the objects that match
+ * @param schema - Schema for one object; arrays are validated item by item
+ * @param data - A single object or an array of objects from Graph
+ * @param source - Check id or endpoint to report mismatches under
+ * @returns The valid objects (null for an invalid single object) and a diagnostic if anything was dropped
+ */
+export function validateGraphData<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown[],
+  source: string
+): { data: z.infer<T>[]; diagnostic?: GraphModelDiagnostic };
+export function validateGraphData<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  source: string
+): { data: z.infer<T>[] | z.infer<T> | null; diagnostic?: GraphModelDiagnostic };
+export function validateGraphData<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  source: string
+): { data: z.infer<T>[] | z.infer<T> | null; diagnostic?: GraphModelDiagnostic } {
+  const items = Array.isArray(data) ? data : data == null ? [] : [data];
+  const valid: z.infer<T>[] = [];
+  const issues: string[] = [];
+  let invalidCount = 0;
+
+  items.forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      valid.push(parsed.data);
+      return;
+    }
+    invalidCount++;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      const prefix = Array.isArray(data) ? `[${index}] ` : "";
+      issues.push(...formatIssues(parsed.error).slice(0, MAX_REPORTED_ISSUES - issues.length).map(i => prefix + i));
+    }
+  });
+
+  const diagnostic = invalidCount > 0 ? {
+    source,
+    model: schema.description || "object",
+    invalidCount,
+    total: items.length,
+    issues,
+  } : undefined;
+
+  if (Array.isArray(data)) {
+    return { data: valid, diagnostic };
+  }
+  return { data: data == null ? null : valid[0] ?? null, diagnostic };
+}
@@ -0,0 +1,196 @@
+import { SecurityIssue } from "@/contexts/ScanContext";
+import { requiresMfa } from "@/utils/conditionalAccess";
+import { ConditionalAccessPolicy, NamedLocation } from "@/utils/graphModels";
+
+// Review of Conditional Access named locations. Trusted IP ranges are the
+// main concern: sign-ins from them skip MFA in many policies, so a range that
+// covers more than the organization's own egress addresses trusts strangers.
+
+// Trusted IPv4 ranges with a shorter prefix than this are reported as broad
+const MAX_TRUSTED_IPV4_PREFIX = 16;
+// Public IPv4 ranges shorter than this are more than an office's egress addresses
+const MAX_TRUSTED_PUBLIC_IPV4_PREFIX = 24;
+// Trusted IPv6 ranges shorter than this are wider than one site's allocation
+const MAX_TRUSTED_IPV6_PREFIX = 48;
+// IPv6 ranges with a shorter prefix than this cover far more than one organization
+const MAX_IPV6_PREFIX = 32;
+
+// Special location id that stands for every trusted location in a policy
+const ALL_TRUSTED = "AllTrusted";
+
+const IP_LOCATION_TYPE = "#microsoft.graph.ipNamedLocation";
+const COUNTRY_LOCATION_TYPE = "#microsoft.graph.countryNamedLocation";
+
+// IPv4 blocks outside the public internet, as [network, prefix]
+const NON_PUBLIC_IPV4_RANGES: [string, number][] = [
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+];
+
+interface ParsedRange {
+  cidr: string;
+  version: 4 | 6;
+  prefix: number;
+  // First address as a number, IPv4 only
+  network?: number;
+}
+
+const ipv4ToNumber = (address: string) =>
+  address.split(".").reduce((value, octet) => value * 256 + Number(octet), 0);
+
+const parseRange = (cidr: string): ParsedRange | null => {
+  const [address, prefixText] = cidr.split("/");
+  const version = address.includes(":") ? 6 : 4;
+  const prefix = prefixText === undefined ? (version === 4 ? 32 : 128) : Number(prefixText);
+  if (Number.isNaN(prefix)) return null;
+  if (version === 6) return { cidr, version, prefix };
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) return null;
+  return { cidr, version, prefix, network: ipv4ToNumber(address) };
+};
+
+// Whether an IPv4 range lies entirely inside non-public address space
+const isNonPublicIpv4 = (range: ParsedRange) =>
+  NON_PUBLIC_IPV4_RANGES.some(([network, prefix]) => {
+    if (range.prefix < prefix) return false;
+    const blockSize = 2 ** (32 - prefix);
+    return Math.floor(range.network / blockSize) === Math.floor(ipv4ToNumber(network) / blockSize);
+  });
+
+const getRanges = (location: NamedLocation): ParsedRange[] =>
+  (location.ipRanges || []).map(range => parseRange(range.cidrAddress)).filter(Boolean);
+
+const locationName = (location: NamedLocation) => location.displayName || location.id;
+
+/**
+ * Find risky named locations and the Conditional Access policies that trust them
+ * @param locations - All named locations in the tenant
+ * @param policies - Conditional Access policies, checked for MFA exclusions by location
+ * @returns One issue per kind of problem found
+ */
+export function analyzeNamedLocations(
+  locations: NamedLocation[],
+  policies: ConditionalAccessPolicy[] = []
+): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const locationIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `named_locations_${key}_${Date.now()}`,
+    affectedObject: { type: "Policy", id: "multiple", name: "Named Locations" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  const ipLocations = locations.filter(location => location["@odata.type"] === IP_LOCATION_TYPE);
+  const trustedLocations = ipLocations.filter(location => location.isTrusted);
+
+  const broadTrustedRanges = trustedLocations.flatMap(location =>
+    getRanges(location)
+      .filter(range => range.prefix < (range.version === 4 ? MAX_TRUSTED_IPV4_PREFIX : MAX_TRUSTED_IPV6_PREFIX))
+      .map(range => {
+        if (range.version === 6) {
+          return `${locationName(location)}: ${range.cidr} (IPv6, wider than /${MAX_TRUSTED_IPV6_PREFIX})`;
+        }
+        const addresses = (2 ** (32 - range.prefix)).toLocaleString();
+        const scope = isNonPublicIpv4(range) ? "private address space" : "public address space";
+        return `${locationName(location)}: ${range.cidr} (${addresses} addresses of ${scope})`;
+      })
+  );
+  if (broadTrustedRanges.length > 0) {
+    issues.push(locationIssue("broad_trusted", {
+      type: "Overly Broad Trusted IP Ranges",
+      severity: "High",
+      description: `${broadTrustedRanges.length} trusted IP ${broadTrustedRanges.length === 1 ? "range is" : "ranges are"} wider than /${MAX_TRUSTED_IPV4_PREFIX} (IPv4) or /${MAX_TRUSTED_IPV6_PREFIX} (IPv6)`,
+      impact: "Sign-ins from trusted locations often skip MFA and risk checks, so anyone on these shared networks is trusted like the office",
+      remediation: "Replace each broad range with the organization's own egress addresses, or unmark the location as trusted",
+      affectedItems: broadTrustedRanges,
+    }));
+  }
+
+  // Public IPv4 ranges between the broad cutoff and a typical office block, reported on their own
+  const largePublicTrustedRanges = trustedLocations.flatMap(location =>
+    getRanges(location)
+      .filter(range =>
+        range.version === 4 &&
+        range.prefix >= MAX_TRUSTED_IPV4_PREFIX &&
+        range.prefix < MAX_TRUSTED_PUBLIC_IPV4_PREFIX &&
+        !isNonPublicIpv4(range)
+      )
+      .map(range => `${locationName(location)}: ${range.cidr} (${(2 ** (32 - range.prefix)).toLocaleString()} public addresses)`)
+  );
+  if (largePublicTrustedRanges.length > 0) {
+    issues.push(locationIssue("public_trusted", {
+      type: "Large Public IP Ranges Marked Trusted",
+      severity: "Medium",
+      description: `${largePublicTrustedRanges.length} trusted public IPv4 ${largePublicTrustedRanges.length === 1 ? "range is" : "ranges are"} wider than /${MAX_TRUSTED_PUBLIC_IPV4_PREFIX}, more than an organization's egress addresses usually need`,
+      impact: "Public blocks this size are often shared with an ISP's or cloud provider's other customers, whose sign-ins are then trusted too",
+      remediation: "Confirm the organization owns the whole range, otherwise narrow it to the NAT or proxy egress addresses",
+      affectedItems: largePublicTrustedRanges,
+    }));
+  }
+
+  // Trusted IPv6 ranges are covered above; untrusted ones still widen allow and block lists
+  const wideIpv6Ranges = ipLocations.filter(location => !location.isTrusted).flatMap(location =>
+    getRanges(location)
+      .filter(range => range.version === 6 && range.prefix < MAX_IPV6_PREFIX)
+      .map(range => `${locationName(location)}: ${range.cidr}`)
+  );
+  if (wideIpv6Ranges.length > 0) {
+    issues.push(locationIssue("wide_ipv6", {
+      type: "IPv6 Ranges Far Too Wide",
+      severity: "Medium",
+      description: `${wideIpv6Ranges.length} IPv6 ${wideIpv6Ranges.length === 1 ? "range is" : "ranges are"} wider than /${MAX_IPV6_PREFIX}, larger than an ISP's allocation`,
+      impact: "A location this wide matches sign-ins from networks the organization does not control",
+      remediation: "Narrow each IPv6 range to the organization's assigned prefix, usually /48 or /56",
+      affectedItems: wideIpv6Ranges,
+    }));
+  }
+
+  const unknownCountries = locations.filter(location =>
+    location["@odata.type"] === COUNTRY_LOCATION_TYPE && location.includeUnknownCountriesAndRegions
+  );
+  if (unknownCountries.length > 0) {
+    issues.push(locationIssue("unknown_countries", {
+      type: "Country Locations Include Unknown Areas",
+      severity: "Medium",
+      description: `${unknownCountries.length} country ${unknownCountries.length === 1 ? "location includes" : "locations include"} IP addresses that cannot be mapped to a country`,
+      impact: "Anonymizing proxies and unmapped addresses count as inside the location, so attackers can match an allow list or dodge a block list",
+      remediation: "Turn off \"Include unknown countries/regions\" unless the location is only used to block sign-ins",
+      affectedItems: unknownCountries.map(location => {
+        const countryCount = (location.countriesAndRegions || []).length;
+        return `${locationName(location)} (${countryCount} ${countryCount === 1 ? "country" : "countries"} plus unknown areas)`;
+      }),
+    }));
+  }
+
+  const trustedIds = new Set(trustedLocations.map(location => location.id));
+  const namesById = new Map(locations.map(location => [location.id, locationName(location)]));
+  const trustedExclusions = policies
+    .filter(policy => policy.state !== "disabled" && requiresMfa(policy))
+    .flatMap(policy => {
+      const excluded = (policy.conditions?.locations?.excludeLocations || [])
+        .filter(id => id === ALL_TRUSTED || trustedIds.has(id))
+        .map(id => id === ALL_TRUSTED ? "all trusted locations" : namesById.get(id));
+      return excluded.length > 0
+        ? [`${policy.displayName || policy.id} (skips MFA from ${excluded.join(", ")})`]
+        : [];
+    });
+  if (trustedExclusions.length > 0) {
+    issues.push(locationIssue("mfa_exclusions", {
+      type: "Trusted Locations Excluded From MFA",
+      severity: "Medium",
+      description: `${trustedExclusions.length} MFA ${trustedExclusions.length === 1 ? "policy skips" : "policies skip"} MFA for sign-ins from trusted locations`,
+      impact: "A stolen password works without MFA from any device on a trusted network, including compromised or guest devices",
+      remediation: "Require MFA everywhere, and use trusted locations to lower sign-in frequency rather than to remove MFA",
+      affectedItems: trustedExclusions,
+    }));
+  }
+
+  return issues;
+}
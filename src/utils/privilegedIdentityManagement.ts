@@ -0,0 +1,157 @@
+import { SecurityIssue } from "@/contexts/ScanContext";
+import {
+  ADMIN_ROLE_TEMPLATES,
+  GLOBAL_ADMINISTRATOR_ROLE_ID,
+  PRIVILEGED_ROLE_ADMINISTRATOR_ROLE_ID,
+  isAdminRole,
+  isHighPrivilegeRole,
+} from "@/utils/directoryRoles";
+import { PimConfiguration, RoleManagementPolicyAssignment, RoleSchedule } from "@/utils/graphModels";
+
+// Just-in-time review of PIM: who holds admin roles permanently instead of
+// activating them, and whether activation asks enough of the person activating.
+
+// Roles that must never be held as standing access
+const JUST_IN_TIME_ROLE_IDS = [GLOBAL_ADMINISTRATOR_ROLE_ID, PRIVILEGED_ROLE_ADMINISTRATOR_ROLE_ID];
+
+// Longest activation, in hours, before it stops being just-in-time
+const MAX_ACTIVATION_HOURS = 8;
+
+// Rule ids PIM uses for what happens when a member activates an eligible role
+const ACTIVATION_ENABLEMENT_RULE = "Enablement_EndUser_Assignment";
+const ACTIVATION_APPROVAL_RULE = "Approval_EndUser_Assignment";
+const ACTIVATION_EXPIRATION_RULE = "Expiration_EndUser_Assignment";
+const ACTIVATION_AUTH_CONTEXT_RULE = "AuthenticationContext_EndUser_Assignment";
+
+const roleName = (roleDefinitionId: string) => ADMIN_ROLE_TEMPLATES[roleDefinitionId]?.name || roleDefinitionId;
+
+const principalName = (schedule: RoleSchedule) =>
+  schedule.principal?.userPrincipalName || schedule.principal?.displayName || schedule.principalId;
+
+// Hours in an ISO 8601 duration such as "PT8H" or "P1D", or null if it cannot be read
+const durationToHours = (duration: string): number | null => {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(duration);
+  if (!match) return null;
+  const [, days, hours, minutes] = match;
+  return Number(days || 0) * 24 + Number(hours || 0) + Number(minutes || 0) / 60;
+};
+
+const findRule = (policy: RoleManagementPolicyAssignment, ruleId: string) =>
+  policy.policy?.rules?.find(rule => rule.id === ruleId);
+
+// What activating a role does not require, e.g. ["MFA", "justification"]
+const getMissingActivationRequirements = (policy: RoleManagementPolicyAssignment): string[] => {
+  const enabledRules = findRule(policy, ACTIVATION_ENABLEMENT_RULE)?.enabledRules || [];
+  // An authentication context can demand MFA through Conditional Access instead
+  const authContext = findRule(policy, ACTIVATION_AUTH_CONTEXT_RULE)?.isEnabled;
+  const missing: string[] = [];
+  if (!enabledRules.includes("MultiFactorAuthentication") && !authContext) missing.push("MFA");
+  if (!enabledRules.includes("Justification")) missing.push("justification");
+  // Approval is only expected for the roles that can take over the tenant
+  if (isHighPrivilegeRole(policy.roleDefinitionId) && !findRule(policy, ACTIVATION_APPROVAL_RULE)?.setting?.isApprovalRequired) {
+    missing.push("approval");
+  }
+  return missing;
+};
+
+/**
+ * Find standing admin access and weak PIM activation settings
+ * @param configuration - Role policies and schedules from the pimConfiguration check
+ * @returns One issue per kind of gap in just-in-time admin access
+ */
+export function analyzePrivilegedIdentityManagement(configuration: PimConfiguration): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const pimIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `pim_${key}_${Date.now()}`,
+    affectedObject: { type: "Role", id: "multiple", name: "Privileged Identity Management" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  // Eligible principals per role, to say whether standing access could be converted
+  const eligibleByRole = new Map<string, Set<string>>();
+  configuration.eligibleAssignments.forEach(schedule => {
+    const principals = eligibleByRole.get(schedule.roleDefinitionId) || new Set<string>();
+    principals.add(schedule.principalId);
+    eligibleByRole.set(schedule.roleDefinitionId, principals);
+  });
+
+  // "Assigned" is standing access; "Activated" schedules come from eligible assignments
+  const standing = configuration.activeAssignments.filter(schedule =>
+    schedule.assignmentType !== "Activated" && isAdminRole(schedule.roleDefinitionId)
+  );
+  const describeStanding = (schedule: RoleSchedule) => {
+    const expiration = schedule.scheduleInfo?.expiration;
+    const duration = expiration?.type === "noExpiration" || !expiration?.endDateTime
+      ? "permanent"
+      : `until ${new Date(expiration.endDateTime).toLocaleDateString()}`;
+    const eligible = eligibleByRole.get(schedule.roleDefinitionId)?.has(schedule.principalId) ? "; also eligible" : "";
+    return `${principalName(schedule)} (${roleName(schedule.roleDefinitionId)}, ${duration} active${eligible})`;
+  };
+
+  const standingJustInTime = standing.filter(schedule => JUST_IN_TIME_ROLE_IDS.includes(schedule.roleDefinitionId));
+  if (standingJustInTime.length > 0) {
+    issues.push(pimIssue("standing_global_admin", {
+      type: "Standing Global or Privileged Role Administrator Access",
+      severity: "High",
+      description: `${standingJustInTime.length} active ${standingJustInTime.length === 1 ? "assignment gives" : "assignments give"} standing Global Administrator or Privileged Role Administrator access outside PIM activation, against ${configuration.eligibleAssignments.filter(schedule => JUST_IN_TIME_ROLE_IDS.includes(schedule.roleDefinitionId)).length} eligible assignments`,
+      impact: "Standing tenant-wide admin rights are usable the moment the account is compromised, with no activation, approval or audit trail",
+      remediation: "Convert these assignments to eligible in PIM, keeping permanent access only for two monitored emergency access accounts",
+      affectedItems: standingJustInTime.map(describeStanding),
+    }));
+  }
+
+  const otherStanding = standing.filter(schedule =>
+    !JUST_IN_TIME_ROLE_IDS.includes(schedule.roleDefinitionId) && isHighPrivilegeRole(schedule.roleDefinitionId)
+  );
+  if (otherStanding.length > 0) {
+    issues.push(pimIssue("standing_privileged", {
+      type: "Standing Access to Privileged Roles",
+      severity: "Medium",
+      description: `${otherStanding.length} ${otherStanding.length === 1 ? "assignment gives" : "assignments give"} standing access to other highly privileged roles`,
+      impact: "Permanently active admin roles widen the damage a single phished account can do",
+      remediation: "Make these roles eligible in PIM and require activation for the time the work takes",
+      affectedItems: otherStanding.map(describeStanding),
+    }));
+  }
+
+  const adminPolicies = configuration.rolePolicies.filter(policy => isAdminRole(policy.roleDefinitionId));
+  const weakActivation = adminPolicies.flatMap(policy => {
+    const missing = getMissingActivationRequirements(policy);
+    return missing.length > 0 ? [`${roleName(policy.roleDefinitionId)} (no ${missing.join(", no ")})`] : [];
+  });
+  if (weakActivation.length > 0) {
+    issues.push(pimIssue("weak_activation", {
+      type: "PIM Activation Without MFA, Justification or Approval",
+      severity: "Medium",
+      description: `${weakActivation.length} admin ${weakActivation.length === 1 ? "role can" : "roles can"} be activated without MFA, a justification or, for the most privileged roles, approval`,
+      impact: "An attacker holding an eligible account can activate the role silently, which defeats the point of just-in-time access",
+      remediation: "In each role's PIM settings require MFA and a justification on activation, and approval for tenant-wide roles",
+      affectedItems: weakActivation,
+    }));
+  }
+
+  const longActivation = adminPolicies.flatMap(policy => {
+    const maximumDuration = findRule(policy, ACTIVATION_EXPIRATION_RULE)?.maximumDuration;
+    const hours = maximumDuration ? durationToHours(maximumDuration) : null;
+    return hours !== null && hours > MAX_ACTIVATION_HOURS
+      ? [`${roleName(policy.roleDefinitionId)} (maximum ${hours} hours)`]
+      : [];
+  });
+  if (longActivation.length > 0) {
+    issues.push(pimIssue("long_activation", {
+      type: "PIM Activations Longer Than 8 Hours",
+      severity: "Low",
+      description: `${longActivation.length} admin ${longActivation.length === 1 ? "role allows" : "roles allow"} activations longer than ${MAX_ACTIVATION_HOURS} hours`,
+      impact: "Long activations leave admin rights live well after the task is done, close to standing access",
+      remediation: `Set the maximum activation duration to ${MAX_ACTIVATION_HOURS} hours or less in each role's PIM settings`,
+      affectedItems: longActivation,
+    }));
+  }
+
+  return issues;
+}
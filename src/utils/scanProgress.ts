@@ -0,0 +1,109 @@
+export type CheckProgressStatus = "queued" | "running" | "succeeded" | "failed" | "skipped";
+
+// Something that happened to one check while a scan runs
+export type ScanProgressEvent =
+  | { checkId: string; type: "queued"; name: string }
+  | { checkId: string; type: "running" }
+  | { checkId: string; type: "request" }
+  | { checkId: string; type: "retry" }
+  | { checkId: string; type: "paged"; page: number; maxPages: number }
+  | { checkId: string; type: "succeeded" }
+  | { checkId: string; type: "failed"; message?: string }
+  | { checkId: string; type: "skipped"; message?: string };
+
+// Live state of one check, folded from its events
+export interface CheckProgress {
+  checkId: string;
+  name: string;
+  status: CheckProgressStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  // Last request, page or status change; a running check that goes quiet has stalled
+  lastActivityAt?: number;
+  requestCount: number;
+  retryCount: number;
+  page?: number;
+  maxPages?: number;
+  message?: string;
+}
+
+// Pseudo-check for the directory delta sync that snapshot-backed checks wait on
+export const DIRECTORY_SYNC_PROGRESS_ID = "directorySync";
+
+// A running check with no activity for this long is shown as stalled
+export const STALLED_AFTER_MS = 30000;
+
+/**
+ * Fold one progress event into the scan's per-check progress list
+ * @param progress - Current progress of every check in the scan
+ * @param event - The event to apply
+ * @param now - Event time in milliseconds
+ */
+export function applyProgressEvent(
+  progress: CheckProgress[],
+  event: ScanProgressEvent,
+  now: number = Date.now()
+): CheckProgress[] {
+  if (event.type === "queued") {
+    return [
+      ...progress.filter(p => p.checkId !== event.checkId),
+      { checkId: event.checkId, name: event.name, status: "queued", requestCount: 0, retryCount: 0 }
+    ];
+  }
+
+  return progress.map(p => {
+    if (p.checkId !== event.checkId) return p;
+
+    const updated: CheckProgress = { ...p, lastActivityAt: now };
+    switch (event.type) {
+      case "running":
+        updated.status = "running";
+        updated.startedAt = p.startedAt ?? now;
+        break;
+      case "request":
+        updated.requestCount = p.requestCount + 1;
+        // Requests only leave once the concurrency limiter lets them through
+        if (p.status === "queued") {
+          updated.status = "running";
+          updated.startedAt = now;
+        }
+        break;
+      case "retry":
+        updated.retryCount = p.retryCount + 1;
+        break;
+      case "paged":
+        updated.page = event.page;
+        updated.maxPages = event.maxPages;
+        break;
+      case "succeeded":
+      case "failed":
+      case "skipped":
+        updated.status = event.type;
+        updated.finishedAt = now;
+        updated.startedAt = p.startedAt ?? now;
+        updated.message = event.type === "succeeded" ? undefined : event.message;
+        break;
+    }
+    return updated;
+  });
+}
+
+/**
+ * How long a check has been running, or ran for
+ * @param progress - The check's progress
+ * @param now - Current time in milliseconds
+ */
+export function getProgressDuration(progress: CheckProgress, now: number = Date.now()): number {
+  if (!progress.startedAt) return 0;
+  return (progress.finishedAt ?? now) - progress.startedAt;
+}
+
+/**
+ * Whether a running check has gone quiet for longer than STALLED_AFTER_MS
+ * @param progress - The check's progress
+ * @param now - Current time in milliseconds
+ */
+export function isProgressStalled(progress: CheckProgress, now: number = Date.now()): boolean {
+  return progress.status === "running"
+    && now - (progress.lastActivityAt ?? progress.startedAt ?? now) > STALLED_AFTER_MS;
+}
@@ -0,0 +1,172 @@
+import { SecurityCheck } from "@/utils/checkRegistry";
+
+// Permissions requested at sign-in; a check can only run on scopes listed here
+export const REQUESTED_SCOPES = [
+  "openid",
+  "profile",
+  "offline_access",
+  // Directory access
+  "Directory.Read.All",
+  "User.Read.All",
+  "Group.Read.All",
+  // Security and compliance
+  "SecurityEvents.Read.All",
+  "IdentityRiskyUser.Read.All",
+  "Policy.Read.All",
+  "SecurityActions.Read.All",
+  // Audit and reports
+  "AuditLog.Read.All",
+  "Reports.Read.All",
+  // Organization
+  "Organization.Read.All",
+  // Applications
+  "Application.Read.All",
+  // Exchange and email
+  "Mail.Read",
+  "MailboxSettings.Read",
+  //"Exchange.ManageAsApp",
+  // Device management
+  "DeviceManagementConfiguration.Read.All",
+  "DeviceManagementManagedDevices.Read.All",
+  "DeviceManagementServiceConfig.Read.All",
+  // Security APIs
+ // "ThreatAssessment.Read.All",
+  "ThreatIndicators.Read.All",
+  "SecurityIncident.Read.All",
+  // Information protection
+ // "InformationProtectionPolicy.Read.All",
+  // Role management
+  "RoleManagement.Read.All",
+  // Sites and SharePoint
+  "Sites.Read.All",
+  "SharePointTenantSettings.Read.All"
+];
+
+// Broader permissions that also satisfy a narrower scope a check declares
+const IMPLIED_BY: Record<string, string[]> = {
+  "User.Read.All": ["Directory.Read.All"],
+  "Group.Read.All": ["Directory.Read.All"],
+  "Organization.Read.All": ["Directory.Read.All"],
+  "RoleManagement.Read.All": ["RoleManagement.Read.Directory"],
+};
+
+export interface BlockedCheck {
+  check: SecurityCheck;
+  missingScopes: string[];
+}
+
+export interface MissingScope {
+  scope: string;
+  // Ids of the checks that cannot run without this scope
+  checkIds: string[];
+  // The app asks for it at sign-in, so signing in again can grant it
+  requested: boolean;
+}
+
+export interface ScanReadinessReport {
+  // False when the token carried no scp or roles claim to compare against
+  scopesKnown: boolean;
+  grantedScopes: string[];
+  readyChecks: SecurityCheck[];
+  blockedChecks: BlockedCheck[];
+  missingScopes: MissingScope[];
+}
+
+/**
+ * Decode the payload of a JWT without validating it
+ * @param token - The encoded token
+ */
+export const parseJwt = (token: string) => {
+  try {
+    const base64Url = token.split(".")[1];
+    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+    const jsonPayload = decodeURIComponent(atob(base64).split("").map(function (c) {
+      return "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2);
+    }).join(""));
+
+    return JSON.parse(jsonPayload);
+  } catch (error) {
+    console.error("Error parsing JWT", error);
+    return {};
+  }
+};
+
+/**
+ * Read the delegated (scp) and application (roles) permissions granted to an access token
+ * @param accessToken - Microsoft Graph access token
+ */
+export function getGrantedScopes(accessToken: string): string[] {
+  const claims = parseJwt(accessToken);
+  const delegated: string[] = typeof claims.scp === "string" ? claims.scp.split(" ").filter(Boolean) : [];
+  const application: string[] = Array.isArray(claims.roles) ? claims.roles : [];
+  return [...new Set([...delegated, ...application])];
+}
+
+/**
+ * Whether a scope, or a permission that implies it, has been granted
+ * @param scope - The scope a check requires
+ * @param grantedScopes - Scopes granted to the token
+ */
+export function isScopeGranted(scope: string, grantedScopes: string[]): boolean {
+  const granted = grantedScopes.map(s => s.toLowerCase());
+  const candidates = [
+    scope,
+    scope.replace(".Read.", ".ReadWrite."),
+    ...(IMPLIED_BY[scope] || []),
+    ...(IMPLIED_BY[scope] || []).map(s => s.replace(".Read.", ".ReadWrite.")),
+  ];
+  return candidates.some(candidate => granted.includes(candidate.toLowerCase()));
+}
+
+/**
+ * Scopes a check requires that the token does not grant
+ * @param check - The registered check
+ * @param grantedScopes - Scopes granted to the token
+ */
+export function getMissingScopes(check: SecurityCheck, grantedScopes: string[]): string[] {
+  return check.requiredScopes.filter(scope => !isScopeGranted(scope, grantedScopes));
+}
+
+/**
+ * Compare the token's granted permissions with what each check needs
+ * @param accessToken - Microsoft Graph access token
+ * @param checks - The checks the scan would run
+ */
+export function buildReadinessReport(accessToken: string, checks: SecurityCheck[]): ScanReadinessReport {
+  const grantedScopes = getGrantedScopes(accessToken);
+
+  // Without any claims to go on, let every check try and report its own failures
+  if (grantedScopes.length === 0) {
+    return {
+      scopesKnown: false,
+      grantedScopes,
+      readyChecks: checks,
+      blockedChecks: [],
+      missingScopes: [],
+    };
+  }
+
+  const readyChecks: SecurityCheck[] = [];
+  const blockedChecks: BlockedCheck[] = [];
+  const missingScopes: MissingScope[] = [];
+
+  checks.forEach(check => {
+    const missing = getMissingScopes(check, grantedScopes);
+    if (missing.length === 0) {
+      readyChecks.push(check);
+      return;
+    }
+
+    blockedChecks.push({ check, missingScopes: missing });
+    missing.forEach(scope => {
+      const entry = missingScopes.find(m => m.scope === scope);
+      if (entry) {
+        entry.checkIds.push(check.id);
+      } else {
+        missingScopes.push({ scope, checkIds: [check.id], requested: REQUESTED_SCOPES.includes(scope) });
+      }
+    });
+  });
+
+  return { scopesKnown: true, grantedScopes, readyChecks, blockedChecks, missingScopes };
+}
@@ -0,0 +1,155 @@
+import { SecurityIssue } from "@/contexts/ScanContext";
+import { SharePointSharing, SharePointSite, SharingLink, SharingLinkScan } from "@/utils/graphModels";
+
+// Review of SharePoint and OneDrive external sharing. Graph's sharepointSettings
+// resource carries the tenant sharing level and domain lists, but not the
+// Anyone link expiry or default link permission, and sites do not expose their
+// own sharing level. Those settings are left to the SharePoint admin center,
+// and each site is reported as capped at the tenant level.
+
+const SHARING_LEVEL_LABELS: Record<string, string> = {
+  disabled: "Only people in your organization",
+  existingExternalUserSharingOnly: "Existing guests",
+  externalUserSharingOnly: "New and existing guests",
+  externalUserAndGuestSharing: "Anyone",
+};
+
+const ANYONE = "externalUserAndGuestSharing";
+
+const describeLevel = (capability: string) => SHARING_LEVEL_LABELS[capability] || capability;
+
+const siteName = (site: SharePointSite) => site.webUrl || site.displayName || site.id;
+
+/**
+ * Find risky SharePoint sharing settings at tenant level
+ * @param sharing - Tenant settings and sites from the sharePointSharing check
+ * @returns One issue per risky setting, listing the sites the tenant level applies to
+ */
+export function analyzeSharePointSharing(sharing: SharePointSharing): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const settings = sharing.organizationSettings;
+  const tenantCapability = settings.sharingCapability;
+  const sharingIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `sharepoint_sharing_${key}_${Date.now()}`,
+    affectedObject: { type: "SharePoint", id: "multiple", name: "SharePoint Sharing" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+
+  if (tenantCapability === ANYONE) {
+    issues.push(sharingIssue("anyone_links", {
+      type: "Anyone Links Allowed Tenant-Wide",
+      severity: "High",
+      description: `SharePoint and OneDrive allow "Anyone" links, so any of the ${sharing.sites.length} ${sharing.sites.length === 1 ? "site" : "sites"} can share files without sign-in${sharing.truncated ? " (site list capped at the page limit)" : ""}`,
+      impact: "Anyone links work without sign-in, so a forwarded or leaked link exposes the file to whoever holds it",
+      remediation: "Lower the tenant level to \"New and existing guests\", enable Anyone links only on sites that need them, and require Anyone links to expire in the SharePoint admin center",
+      affectedItems: sharing.sites.length > 0
+        ? sharing.sites.map(site => `${siteName(site)} (up to: ${describeLevel(tenantCapability)})`)
+        : [`Tenant (sharing level: ${describeLevel(tenantCapability)})`],
+    }));
+  }
+
+  const restrictionMode = settings.sharingDomainRestrictionMode || "none";
+  if (tenantCapability !== "disabled" && restrictionMode === "none") {
+    issues.push(sharingIssue("domain_restrictions", {
+      type: "No External Sharing Domain Restrictions",
+      severity: "Low",
+      description: "External sharing is enabled without an allowed or blocked domain list",
+      impact: "Files can be shared with any external organization, including personal mail providers and competitors",
+      remediation: "Limit external sharing to partner domains with an allow list, or block known risky domains",
+      affectedItems: [`Domain restriction (current: none; recommended: allow list or block list)`],
+    }));
+  }
+
+  return issues;
+}
+
+const grantsEdit = (link: SharingLink) =>
+  link.linkType === "edit" || link.roles.some(role => role === "write" || role === "owner");
+
+const describeExpiry = (link: SharingLink) =>
+  link.expirationDateTime ? `expires ${new Date(link.expirationDateTime).toLocaleDateString()}` : "never expires";
+
+const describeAccess = (link: SharingLink) => link.linkType || link.roles.join(", ") || "unknown access";
+
+/**
+ * Find Anyone links and external-user access in site document libraries
+ * @param scan - Permissions from the sharePointSharingLinks check
+ * @returns One issue per kind of exposure, listing each item with its access and expiry
+ */
+export function analyzeSharingLinks(scan: SharingLinkScan): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  // The scan stops at fixed caps on large tenants, so counts are a lower bound
+  const partial = scan.truncated ? ` in the ${scan.itemsScanned.toLocaleString()} items scanned; more may exist` : "";
+  const linkIssue = (
+    key: string,
+    fields: Pick<SecurityIssue, "type" | "severity" | "description" | "impact" | "remediation" | "affectedItems">
+  ): SecurityIssue => ({
+    id: `sharing_links_${key}_${Date.now()}`,
+    affectedObject: { type: "SharePoint", id: "multiple", name: "SharePoint Sharing Links" },
+    status: "Open",
+    isRealData: true,
+    ...fields,
+  });
+  const describeLink = (link: SharingLink) =>
+    `${link.siteName}: ${link.itemPath} (${describeAccess(link)}; ${describeExpiry(link)})`;
+
+  const anonymous = scan.links.filter(link => link.audience === "anonymous");
+  const anonymousEdit = anonymous.filter(grantsEdit);
+  if (anonymousEdit.length > 0) {
+    issues.push(linkIssue("anonymous_edit", {
+      type: "Anyone Links With Edit Access",
+      severity: "High",
+      description: `${anonymousEdit.length} Anyone ${anonymousEdit.length === 1 ? "link lets" : "links let"} people without an account edit files${partial}`,
+      impact: "Whoever holds the link can change, replace or delete the content without signing in or leaving a name in the audit log",
+      remediation: "Remove these links or replace them with view-only links to specific people",
+      affectedItems: anonymousEdit.map(describeLink),
+    }));
+  }
+
+  const anonymousNoExpiry = anonymous.filter(link => !grantsEdit(link) && !link.expirationDateTime);
+  if (anonymousNoExpiry.length > 0) {
+    issues.push(linkIssue("anonymous_no_expiry", {
+      type: "Anyone Links Without Expiration",
+      severity: "Medium",
+      description: `${anonymousNoExpiry.length} view-only Anyone ${anonymousNoExpiry.length === 1 ? "link has" : "links have"} no expiration date${partial}`,
+      impact: "The content stays readable by anyone the link reaches, long after it was meant to be shared",
+      remediation: "Set an expiration date on these links, or remove the ones no longer needed",
+      affectedItems: anonymousNoExpiry.map(describeLink),
+    }));
+  }
+
+  const external = scan.links.filter(link => link.audience === "external");
+  if (external.length > 0) {
+    const externalEdit = external.filter(grantsEdit).length;
+    issues.push(linkIssue("external_users", {
+      type: "Files Shared With External Users",
+      severity: externalEdit > 0 ? "Medium" : "Low",
+      description: `${external.length} ${external.length === 1 ? "link or grant gives" : "links or grants give"} guests or outside addresses access to files, ${externalEdit} with edit access${partial}`,
+      impact: "External users keep access until the link or grant is removed, even after the collaboration ends",
+      remediation: "Review each share with the site owner, remove stale ones and set guest access to expire",
+      affectedItems: external.map(link =>
+        `${link.siteName}: ${link.itemPath} (${describeAccess(link)}; shared with ${link.grantees.join(", ")}; ${describeExpiry(link)})`
+      ),
+    }));
+  }
+
+  // Libraries that could not be read may hold links of their own
+  const skippedSites = scan.skippedSites || [];
+  if (skippedSites.length > 0) {
+    issues.push(linkIssue("skipped_sites", {
+      type: "Sites Not Scanned for Sharing Links",
+      severity: "Low",
+      description: `${skippedSites.length} ${skippedSites.length === 1 ? "site's document library" : "sites' document libraries"} could not be read, so their sharing links are unknown`,
+      impact: "Anyone or external links on these sites are not reflected in this report",
+      remediation: "Grant the scanning account read access to these sites, or review their sharing in the SharePoint admin center",
+      affectedItems: skippedSites,
+    }));
+  }
+
+  return issues;
+}